@@ -4,6 +4,9 @@ import * as fs from 'fs';
 import { AppPaths } from '../utils/paths';
 import { OAUTH_CONFIG } from '../utils/constants';
 import { logger } from '../utils/logger';
+import { ConfigError } from '../utils/errors';
+import { QuotaService } from '../services/quota';
+import { getScheduler } from '../services/scheduler';
 
 export class YouTubeAuth {
   private oauth2Client: OAuth2Client;
@@ -12,7 +15,7 @@ export class YouTubeAuth {
     const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI } = process.env;
 
     if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET || !GOOGLE_REDIRECT_URI) {
-      throw new Error(
+      throw new ConfigError(
         'Missing required environment variables: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI'
       );
     }
@@ -78,15 +81,20 @@ export class YouTubeAuth {
   async getUserPlaylists(): Promise<Array<{ id: string; title: string; itemCount: number }>> {
     const youtube = this.getYouTubeService();
     const playlists: Array<{ id: string; title: string; itemCount: number }> = [];
+    const quota = new QuotaService();
     let pageToken: string | undefined;
 
     do {
-      const response = await youtube.playlists.list({
-        part: ['snippet', 'contentDetails'],
-        mine: true,
-        maxResults: 50,
-        pageToken,
-      });
+      const response = await getScheduler('youtube').run(() =>
+        quota.track('playlists.list', () =>
+          youtube.playlists.list({
+            part: ['snippet', 'contentDetails'],
+            mine: true,
+            maxResults: 50,
+            pageToken,
+          })
+        )
+      );
 
       if (response.data.items) {
         for (const item of response.data.items) {
@@ -105,4 +113,37 @@ export class YouTubeAuth {
 
     return playlists;
   }
+
+  async getPlaylistItems(playlistId: string): Promise<Array<{ id: string; videoId: string }>> {
+    const youtube = this.getYouTubeService();
+    const items: Array<{ id: string; videoId: string }> = [];
+    const quota = new QuotaService();
+    let pageToken: string | undefined;
+
+    do {
+      const response = await getScheduler('youtube').run(() =>
+        quota.track('playlistItems.list', () =>
+          youtube.playlistItems.list({
+            part: ['snippet'],
+            playlistId,
+            maxResults: 50,
+            pageToken,
+          })
+        )
+      );
+
+      if (response.data.items) {
+        for (const item of response.data.items) {
+          const videoId = item.snippet?.resourceId?.videoId;
+          if (item.id && videoId) {
+            items.push({ id: item.id, videoId });
+          }
+        }
+      }
+
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return items;
+  }
 }
@@ -1,128 +1,418 @@
 import { getDatabase } from '../db';
 import { logger } from '../utils/logger';
-import { GeminiService } from '../services/gemini';
-import type { AnalysisType } from '../types';
+import { createProvider } from '../services/provider';
+import { refreshSmartPlaylists } from '../services/smart-playlists';
+import {
+  buildAnalysisPrompt,
+  estimateSongTokens,
+  estimateTokens,
+  type LLMProvider,
+  type SongAnalysis,
+} from '../services/llm';
+import type { AnalysisEntry, AnalysisType, CategoryType, Song, TaxonomyDimension } from '../types';
+import { getAnalysisConfig, getDimension, getTaxonomy } from '../utils/config';
+import { ANALYSIS, EXIT_CODES, type ExitCode } from '../utils/constants';
+import { exitCodeFor } from '../utils/errors';
+import { getMatchKey } from '../utils/matching';
+import { normalizeLabel } from '../utils/vocabulary';
+import { getBooleanFlag, getListFlag, getStringFlag, type ParsedArgs } from '../utils/args';
 
-const BATCH_SIZE = 15; // Process 15 songs at a time to avoid rate limits
+// Errors that would fail every smaller batch too
+const FATAL_CODES: ExitCode[] = [
+  EXIT_CODES.QUOTA_EXCEEDED,
+  EXIT_CODES.AUTH_REQUIRED,
+  EXIT_CODES.CONFIG_MISSING,
+];
 
-export async function handleAnalyzeCommand(args: string[]): Promise<void> {
+interface SongFailure {
+  song: Song;
+  reason: string;
+  code: ExitCode;
+}
+
+interface Batch {
+  types: CategoryType[];
+  dimensions: TaxonomyDimension[];
+  songs: Song[];
+}
+
+export async function handleAnalyzeCommand(args: ParsedArgs): Promise<void> {
   // Parse --type flag
   let type: AnalysisType = 'all';
-  const typeArg = args.find(arg => arg.startsWith('--type='));
+  const typeArg = getStringFlag(args, 'type');
+
+  const taxonomy = getTaxonomy();
 
-  if (typeArg) {
-    const value = typeArg.split('=')[1] as AnalysisType;
-    if (['mood', 'genre', 'energy', 'all'].includes(value)) {
+  if (typeArg !== undefined) {
+    const value = typeArg.toLowerCase();
+    if (value === 'all' || getDimension(value)) {
       type = value;
     } else {
-      logger.error('Invalid type. Use: mood, genre, energy, or all');
+      logger.error(`Invalid type. Use: ${taxonomy.map(d => d.name).join(', ')}, or all`);
+      process.exitCode = EXIT_CODES.USAGE;
       return;
     }
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    logger.error('GEMINI_API_KEY not found in .env');
+  // Re-analysis flags select songs regardless of their analysis state
+  const force = getBooleanFlag(args, 'force');
+  const since = getStringFlag(args, 'since');
+  const songIds = getListFlag(args, 'song');
+
+  if (since !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(since)))) {
+    logger.error('Invalid --since date. Use: YYYY-MM-DD');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const { batchTokens, concurrency: defaultConcurrency } = getAnalysisConfig();
+  const concurrency = parseInt(getStringFlag(args, 'concurrency') ?? String(defaultConcurrency));
+  if (isNaN(concurrency) || concurrency <= 0) {
+    logger.error('Invalid --concurrency. Use a positive number');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = createProvider();
+  } catch (error: any) {
+    logger.error(error.message);
+    process.exitCode = exitCodeFor(error);
     return;
   }
 
   const db = getDatabase();
-  const gemini = new GeminiService(apiKey);
 
-  // Get unprocessed songs
-  const allSongs = db.getAllSongs();
-  const unprocessedSongs = allSongs.filter(s => !s.ai_processed);
+  const types: CategoryType[] = type === 'all' ? taxonomy.map(d => d.name) : [type];
+  let groups: { types: CategoryType[]; songs: Song[] }[];
+
+  if (force || since !== undefined || songIds.length > 0) {
+    let songs = since !== undefined ? db.getSongsAddedSince(since) : db.getAllSongs();
+
+    if (songIds.length > 0) {
+      const unknown = songIds.filter(id => !db.getSongById(id));
+      if (unknown.length > 0) {
+        logger.error(`Song not found: ${unknown.join(', ')}`);
+        process.exitCode = EXIT_CODES.USAGE;
+        return;
+      }
+      songs = songs.filter(song => songIds.includes(song.id));
+    }
 
-  if (unprocessedSongs.length === 0) {
+    groups = songs.length > 0 ? [{ types, songs }] : [];
+  } else {
+    groups = groupByMissingTypes(types);
+  }
+
+  const pendingCount = groups.reduce((sum, group) => sum + group.songs.length, 0);
+
+  if (pendingCount === 0) {
     logger.log('');
-    logger.success('✓ All songs have been analyzed');
-    logger.dim(`Total: ${allSongs.length} songs`);
+    logger.success(`✓ No songs to analyze (${type})`);
+    logger.dim(`Total: ${db.getSongCount()} songs. Use --force to re-analyze all of them`);
     logger.log('');
     return;
   }
 
+  // Uploads of the same track are analyzed once: earlier results for their match key are
+  // reused unless songs are being re-analyzed (--force, --since or --song), and duplicates
+  // within this run copy their labels
+  const reanalyze = force || since !== undefined || songIds.length > 0;
+  const duplicates = new Map<string, Song[]>();
+  const batches: Batch[] = [];
+  let fromCache = 0;
+  let fromDuplicates = 0;
+
+  for (const group of groups) {
+    const dimensions = taxonomy.filter(d => group.types.includes(d.name));
+    const representatives = new Map<string, Song>();
+    const unique: Song[] = [];
+
+    for (const song of group.songs) {
+      const key = getMatchKey(song);
+      const first = key !== null ? representatives.get(key) : undefined;
+      if (first) {
+        duplicates.set(first.id, [...(duplicates.get(first.id) ?? []), song]);
+      } else {
+        if (key !== null) representatives.set(key, song);
+        unique.push(song);
+      }
+    }
+
+    const cached = reanalyze
+      ? null
+      : db.getCachedAnalyses([...representatives.keys()], provider.model, ANALYSIS.PROMPT_VERSION);
+    const hits: AnalysisEntry[] = [];
+
+    for (const [key, song] of representatives) {
+      const labels = cached?.get(key);
+      if (!labels || !dimensions.every(d => labels[d.name])) continue;
+
+      // Drop cached values that have since left the vocabulary
+      const current: SongAnalysis['labels'] = {};
+      for (const dimension of dimensions) {
+        current[dimension.name] = labels[dimension.name]!.filter(
+          label => normalizeLabel(dimension, label.value) === label.value
+        );
+      }
+
+      for (const match of [song, ...(duplicates.get(song.id) ?? [])]) {
+        hits.push(toEntry(match, null, group.types, current, []));
+      }
+      unique.splice(unique.indexOf(song), 1);
+    }
+
+    if (hits.length > 0) {
+      db.saveAnalysisBatch(hits, group.types, provider.model, ANALYSIS.PROMPT_VERSION);
+      fromCache += hits.length;
+    }
+
+    batches.push(
+      ...planBatches(unique, dimensions, batchTokens).map(
+        (songs): Batch => ({ types: group.types, dimensions, songs })
+      )
+    );
+  }
+
+  const workers = Math.min(concurrency, batches.length);
+
   logger.log('');
-  logger.info(`Analyzing ${unprocessedSongs.length} songs (${type})...`);
-  logger.dim(`Processing in batches of ${BATCH_SIZE}`);
+  logger.info(`Analyzing ${pendingCount} songs (${type})...`);
+  if (fromCache > 0) {
+    logger.dim(`Reused earlier analyses for ${fromCache} songs`);
+  }
+  if (batches.length > 0) {
+    logger.dim(
+      `Processing ${batches.length} batches of up to ~${batchTokens} tokens, ${workers} at a time`
+    );
+  }
   logger.log('');
 
-  let processed = 0;
-  let failed = 0;
-
-  // Process in batches
-  for (let i = 0; i < unprocessedSongs.length; i += BATCH_SIZE) {
-    const batch = unprocessedSongs.slice(i, i + BATCH_SIZE);
-    const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(unprocessedSongs.length / BATCH_SIZE);
-
-    try {
-      logger.dim(`Batch ${batchNum}/${totalBatches} (${batch.length} songs)...`);
-
-      const analyses = await gemini.analyzeSongs(batch, type);
-
-      // Save categories to database
-      for (const analysis of analyses) {
-        if (type === 'mood' || type === 'all') {
-          if (analysis.mood) {
-            for (const mood of analysis.mood) {
-              db.insertCategory({
-                song_id: analysis.song_id,
-                type: 'mood',
-                value: mood,
-                confidence: 1.0,
-              });
-            }
-          }
-        }
+  let processed = fromCache;
+  let rejected = 0;
+  let completed = 0;
+  const failures: SongFailure[] = [];
+
+  // Batches are handed out from a shared queue; the provider's scheduler still paces requests.
+  // After a fatal failure (quota, auth, config) no more batches are started.
+  let next = 0;
+  const isFatal = (failure: SongFailure) => FATAL_CODES.includes(failure.code);
+  const work = async (): Promise<void> => {
+    while (next < batches.length && !failures.some(isFatal)) {
+      const batch = batches[next++]!;
+      const progress = () => `Batch ${++completed}/${batches.length}`;
 
-        if (type === 'genre' || type === 'all') {
-          if (analysis.genre) {
-            for (const genre of analysis.genre) {
-              db.insertCategory({
-                song_id: analysis.song_id,
-                type: 'genre',
-                value: genre,
-                confidence: 1.0,
-              });
-            }
+      try {
+        const result = await analyzeWithSplitting(provider, batch.songs, batch.dimensions);
+        const entries: AnalysisEntry[] = [];
+        let batchDuplicates = 0;
+
+        for (const analysis of result.analyses) {
+          const song = batch.songs.find(s => s.id === analysis.song_id)!;
+          entries.push(
+            toEntry(song, getMatchKey(song), batch.types, analysis.labels, analysis.rejected)
+          );
+          for (const match of duplicates.get(song.id) ?? []) {
+            entries.push(toEntry(match, null, batch.types, analysis.labels, []));
+            batchDuplicates++;
           }
         }
-
-        if (type === 'energy' || type === 'all') {
-          if (analysis.energy) {
-            db.insertCategory({
-              song_id: analysis.song_id,
-              type: 'energy',
-              value: analysis.energy,
-              confidence: 1.0,
-            });
+        for (const failure of [...result.failures]) {
+          for (const match of duplicates.get(failure.song.id) ?? []) {
+            result.failures.push({ ...failure, song: match });
           }
         }
 
-        // Mark as processed
-        db.markSongAsProcessed(analysis.song_id);
-      }
+        db.saveAnalysisBatch(entries, batch.types, provider.model, ANALYSIS.PROMPT_VERSION);
 
-      processed += analyses.length;
-      logger.success(`  ✓ Processed ${analyses.length} songs`);
+        processed += entries.length;
+        fromDuplicates += batchDuplicates;
+        rejected += result.analyses.reduce((sum, analysis) => sum + analysis.rejected.length, 0);
+        failures.push(...result.failures);
 
-      // Small delay between batches to avoid rate limiting
-      if (i + BATCH_SIZE < unprocessedSongs.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (result.failures.length === 0) {
+          logger.success(`  ✓ ${progress()}: processed ${entries.length} songs`);
+        } else {
+          logger.warn(
+            `  ⚠ ${progress()}: processed ${entries.length} songs, ${result.failures.length} failed`
+          );
+        }
+      } catch (error: any) {
+        // Saving failed, so nothing from this batch was kept
+        const code = exitCodeFor(error);
+        const songs = batch.songs.flatMap(song => [song, ...(duplicates.get(song.id) ?? [])]);
+        failures.push(...songs.map(song => ({ song, reason: error.message, code })));
+        logger.warn(`  ⚠ ${progress()}: ${songs.length} songs failed (${error.message})`);
       }
-    } catch (error: any) {
-      logger.error(`  ✗ Batch failed: ${error.message}`);
-      failed += batch.length;
     }
-  }
+  };
+
+  await Promise.all(Array.from({ length: workers }, work));
+
+  const fatal = failures.find(isFatal);
+
+  const skipped = batches
+    .slice(next)
+    .flatMap(batch => batch.songs)
+    .reduce((sum, song) => sum + 1 + (duplicates.get(song.id)?.length ?? 0), 0);
 
   logger.log('');
-  logger.success(`✓ Analysis complete`);
+  if (fatal) {
+    logger.warn('⚠ Analysis stopped early');
+  } else {
+    logger.success(`✓ Analysis complete`);
+  }
   logger.info(`Processed: ${processed} songs`);
-  if (failed > 0) {
-    logger.warn(`Failed: ${failed} songs`);
+  const reused = fromCache + fromDuplicates;
+  logger.dim(
+    `Cache: reused ${reused} of ${pendingCount} songs (${Math.round((reused / pendingCount) * 100)}%), ` +
+      `${fromCache} from earlier analyses and ${fromDuplicates} duplicate uploads`
+  );
+  if (rejected > 0) {
+    logger.dim(`Ignored ${rejected} labels outside the vocabulary (see "categories rejected")`);
+  }
+  if (failures.length > 0) {
+    logger.warn(`Failed: ${failures.length} songs`);
+    for (const { song, reason } of failures) {
+      logger.dim(`  ✗ "${song.title}" by ${song.artist || 'Unknown'} [${song.id}]: ${reason}`);
+    }
+    logger.dim('Retry them with "analyze" (or --song=<id>)');
+    process.exitCode = failures[failures.length - 1]!.code;
+  }
+  if (fatal) {
+    if (skipped > 0) {
+      logger.warn(`Skipped: ${skipped} songs, stopped after "${fatal.reason}"`);
+      logger.dim('Run "analyze" again once the problem is fixed');
+    }
+    process.exitCode = fatal.code;
   }
+  refreshSmartPlaylists();
   logger.log('');
   logger.dim('Run "status" to see your library breakdown');
   logger.log('');
 }
+
+// Retry the songs that failed in halves, down to single songs, so one bad item does not
+// sink the rest of its batch. Quota, auth and config errors fail the batch without splitting.
+async function analyzeWithSplitting(
+  provider: LLMProvider,
+  songs: Song[],
+  dimensions: TaxonomyDimension[]
+): Promise<{ analyses: SongAnalysis[]; failures: SongFailure[] }> {
+  const analyses: SongAnalysis[] = [];
+  const reasons = new Map<string, string>();
+  let code: ExitCode = EXIT_CODES.AI_RESPONSE_INVALID;
+
+  try {
+    const result = await provider.analyzeSongs(songs, dimensions);
+    analyses.push(...result.analyses);
+    for (const failure of result.failures) {
+      reasons.set(failure.song_id, failure.reason);
+    }
+  } catch (error: any) {
+    code = exitCodeFor(error);
+    const failures = songs.map(song => ({ song, reason: error.message, code }));
+    if (FATAL_CODES.includes(code) || songs.length === 1) {
+      return { analyses, failures };
+    }
+    for (const song of songs) {
+      reasons.set(song.id, error.message);
+    }
+  }
+
+  const failed = songs.filter(song => reasons.has(song.id));
+  if (failed.length === 0) {
+    return { analyses, failures: [] };
+  }
+  if (songs.length === 1) {
+    return { analyses, failures: [{ song: songs[0]!, reason: reasons.get(songs[0]!.id)!, code }] };
+  }
+
+  logger.dim(
+    failed.length === 1
+      ? `  Retrying "${failed[0]!.title}" on its own...`
+      : `  Retrying ${failed.length} songs in smaller batches...`
+  );
+  const half = Math.ceil(failed.length / 2);
+  const parts = failed.length === 1 ? [failed] : [failed.slice(0, half), failed.slice(half)];
+  const failures: SongFailure[] = [];
+
+  for (const part of parts) {
+    const result = await analyzeWithSplitting(provider, part, dimensions);
+    analyses.push(...result.analyses);
+    failures.push(...result.failures);
+  }
+
+  return { analyses, failures };
+}
+
+function toEntry(
+  song: Song,
+  matchKey: string | null,
+  types: CategoryType[],
+  labels: SongAnalysis['labels'],
+  rejected: SongAnalysis['rejected']
+): AnalysisEntry {
+  return {
+    songId: song.id,
+    matchKey,
+    categories: types.flatMap(categoryType =>
+      (labels[categoryType] ?? []).map(label => ({
+        song_id: song.id,
+        type: categoryType,
+        value: label.value,
+        confidence: label.confidence,
+        origin: 'ai' as const,
+      }))
+    ),
+    rejected: rejected.map(label => ({ ...label, song_id: song.id })),
+  };
+}
+
+// Pack songs into batches whose estimated prompt + reply size fits the token budget
+function planBatches(songs: Song[], dimensions: TaxonomyDimension[], budget: number): Song[][] {
+  const overhead = estimateTokens(buildAnalysisPrompt([], dimensions));
+  const batches: Song[][] = [];
+  let current: Song[] = [];
+  let tokens = overhead;
+
+  for (const song of songs) {
+    const cost = estimateSongTokens(song, dimensions);
+    const full = tokens + cost > budget || current.length >= ANALYSIS.MAX_BATCH_SONGS;
+    if (full && current.length > 0) {
+      batches.push(current);
+      current = [];
+      tokens = overhead;
+    }
+    current.push(song);
+    tokens += cost;
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+// Group songs by which of the requested types they still lack, so each is asked only once
+function groupByMissingTypes(types: CategoryType[]): { types: CategoryType[]; songs: Song[] }[] {
+  const db = getDatabase();
+  const pending = new Map<string, { song: Song; types: CategoryType[] }>();
+
+  for (const categoryType of types) {
+    for (const song of db.getSongsMissingAnalysis(categoryType)) {
+      const entry = pending.get(song.id) ?? { song, types: [] };
+      entry.types.push(categoryType);
+      pending.set(song.id, entry);
+    }
+  }
+
+  const groups = new Map<string, { types: CategoryType[]; songs: Song[] }>();
+  for (const { song, types: missing } of pending.values()) {
+    const key = missing.join(',');
+    const group = groups.get(key) ?? { types: missing, songs: [] };
+    group.songs.push(song);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
@@ -2,6 +2,7 @@ import { YouTubeAuth } from '../api/youtube';
 import { logger } from '../utils/logger';
 import { OAUTH_CONFIG } from '../utils/constants';
 import chalk from 'chalk';
+import { QuotaService } from '../services/quota';
 
 interface AuthCallbackResult {
   code?: string;
@@ -15,7 +16,9 @@ export async function authenticateYouTube(): Promise<boolean> {
   if (auth.loadToken()) {
     try {
       const youtube = auth.getYouTubeService();
-      const { data } = await youtube.channels.list({ part: ['snippet'], mine: true });
+      const { data } = await new QuotaService().track('channels.list', () =>
+        youtube.channels.list({ part: ['snippet'], mine: true })
+      );
 
       if (data.items?.[0]) {
         logger.success(`✓ Already authenticated as ${data.items[0].snippet?.title}`);
@@ -46,7 +49,9 @@ export async function authenticateYouTube(): Promise<boolean> {
     await auth.getTokenFromCode(code);
 
     const youtube = auth.getYouTubeService();
-    const { data } = await youtube.channels.list({ part: ['snippet'], mine: true });
+    const { data } = await new QuotaService().track('channels.list', () =>
+      youtube.channels.list({ part: ['snippet'], mine: true })
+    );
     const channel = data.items?.[0]?.snippet?.title || 'Unknown';
 
     logger.success(`✓ Authenticated as ${channel}`);
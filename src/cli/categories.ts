@@ -0,0 +1,157 @@
+import chalk from 'chalk';
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import { EXIT_CODES } from '../utils/constants';
+import { getDimension, getTaxonomy } from '../utils/config';
+import { normalizeLabel } from '../utils/vocabulary';
+import { getBooleanFlag, type ParsedArgs } from '../utils/args';
+import { getTimeAgo } from '../utils/time';
+
+export function handleCategoriesCommand(args: ParsedArgs): void {
+  const subcommand = args.positionals[0]?.toLowerCase();
+
+  if (!subcommand || subcommand === 'list') {
+    listCategories();
+    return;
+  }
+
+  if (subcommand === 'normalize') {
+    normalizeCategories(getBooleanFlag(args, 'dry-run'));
+    return;
+  }
+
+  if (subcommand === 'rejected') {
+    if (getBooleanFlag(args, 'clear')) {
+      clearRejectedLabels();
+    } else {
+      listRejectedLabels();
+    }
+    return;
+  }
+
+  logger.error(`Unknown subcommand: ${subcommand}`);
+  logger.dim('Usage: categories [list|normalize|rejected]');
+  logger.log('');
+  process.exitCode = EXIT_CODES.USAGE;
+}
+
+function listCategories(): void {
+  const db = getDatabase();
+  let outsideVocabulary = false;
+
+  logger.log('');
+  for (const dimension of getTaxonomy()) {
+    const counts = db.getAllCategoriesByType(dimension.name);
+    logger.log(
+      chalk.cyan(dimension.name) +
+        chalk.dim(` (${dimension.cardinality === 'single' ? 'single value' : 'multiple'})`)
+    );
+
+    if (counts.length === 0) {
+      logger.dim('  No songs labelled yet');
+    } else {
+      logger.log(
+        '  ' +
+          counts
+            .map(({ value, count }) => {
+              if (dimension.values.includes(value)) {
+                return `${chalk.white(value)} ${chalk.dim(count)}`;
+              }
+              outsideVocabulary = true;
+              return `${chalk.yellow(value)} ${chalk.dim(count)}`;
+            })
+            .join(', ')
+      );
+    }
+  }
+  logger.log('');
+  if (outsideVocabulary) {
+    logger.dim('Yellow values are outside the vocabulary; run "categories normalize" to clean up');
+    logger.log('');
+  }
+}
+
+// Rewrite existing AI labels to canonical values and reject those outside the vocabulary
+function normalizeCategories(dryRun: boolean): void {
+  const db = getDatabase();
+  const unknownTypes = new Set<string>();
+  let renamed = 0;
+  let rejected = 0;
+
+  logger.log('');
+  if (dryRun) {
+    logger.info('Dry run: no changes will be made');
+    logger.log('');
+  }
+
+  for (const { type, value, count } of db.getAiCategoryValues()) {
+    const dimension = getDimension(type);
+    if (!dimension) {
+      unknownTypes.add(type);
+      continue;
+    }
+
+    const canonical = normalizeLabel(dimension, value);
+    if (canonical === value) continue;
+
+    if (canonical === null) {
+      logger.log(
+        `  ${chalk.red('✗')} ${type}: "${value}" ${chalk.dim(`(${count} songs, rejected)`)}`
+      );
+      rejected += dryRun ? count : db.rejectAiCategoryValue(type, value);
+    } else {
+      logger.log(
+        `  ${chalk.green('→')} ${type}: "${value}" → "${canonical}" ${chalk.dim(`(${count} songs)`)}`
+      );
+      renamed += dryRun ? count : db.renameAiCategoryValue(type, value, canonical);
+    }
+  }
+
+  if (renamed === 0 && rejected === 0) {
+    logger.success('✓ All AI labels already use canonical values');
+  } else {
+    logger.log('');
+    logger.success(`✓ ${dryRun ? 'Would normalize' : 'Normalized'} ${renamed} labels`);
+    if (rejected > 0) {
+      logger.warn(
+        `${dryRun ? 'Would reject' : 'Rejected'} ${rejected} labels outside the vocabulary`
+      );
+      if (!dryRun) logger.dim('Review them with "categories rejected"');
+    }
+  }
+
+  if (unknownTypes.size > 0) {
+    logger.dim(`Skipped types not in the taxonomy: ${[...unknownTypes].join(', ')}`);
+  }
+  logger.log('');
+}
+
+function listRejectedLabels(): void {
+  const summary = getDatabase().getRejectedLabelSummary();
+
+  logger.log('');
+  if (summary.length === 0) {
+    logger.dim('No rejected labels');
+    logger.log('');
+    return;
+  }
+
+  logger.log(chalk.cyan(`Rejected labels (${summary.length}):`));
+  for (const { type, value, count, last_seen } of summary) {
+    logger.log(
+      `  ${chalk.gray(type.padEnd(10))} ${chalk.white(value)} ${chalk.dim(`×${count}, last ${getTimeAgo(last_seen)}`)}`
+    );
+  }
+  logger.log('');
+  logger.dim('Add common ones as synonyms or values in djemini.config.json');
+  logger.dim('Run "categories rejected --clear" to start a fresh list');
+  logger.log('');
+}
+
+function clearRejectedLabels(): void {
+  const cleared = getDatabase().clearRejectedLabels();
+
+  logger.log('');
+  logger.success(`✓ Cleared ${cleared} rejected labels`);
+  logger.log('');
+}
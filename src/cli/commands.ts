@@ -0,0 +1,300 @@
+import chalk from 'chalk';
+import { logger } from '../utils/logger';
+import { ANALYSIS, PLAYLIST_CREATION, PLAYLIST_SHAPES } from '../utils/constants';
+import type { FlagDefinition } from '../utils/args';
+
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  usage: string[];
+  flags?: FlagDefinition[];
+}
+
+// Accepted by every command
+export const HELP_FLAG: FlagDefinition = {
+  name: 'help',
+  description: 'Show help for this command',
+  type: 'boolean',
+};
+
+export const COMMANDS: CommandDefinition[] = [
+  {
+    name: 'auth',
+    description: 'Switch YouTube Music account',
+    usage: ['auth'],
+  },
+  {
+    name: 'sources',
+    description: 'Manage sources (discover, add <url>, remove <id>, list)',
+    usage: [
+      'sources [list]',
+      'sources discover',
+      'sources add <playlist-url>',
+      'sources remove <id>',
+    ],
+  },
+  {
+    name: 'sync',
+    description: 'Fetch songs from sources (sync or sync --source=<id>)',
+    usage: ['sync', 'sync --source=<id>'],
+    flags: [
+      {
+        name: 'source',
+        description: 'Only sync the source with this ID',
+        type: 'string',
+        valueName: '<id>',
+      },
+    ],
+  },
+  {
+    name: 'history',
+    description: 'Show recent syncs (history <id> for the songs a sync changed)',
+    usage: ['history', 'history --limit=<n>', 'history <run-id>'],
+    flags: [
+      {
+        name: 'limit',
+        description: 'Number of runs to list (default: 20)',
+        type: 'string',
+        valueName: '<n>',
+      },
+    ],
+  },
+  {
+    name: 'analyze',
+    description: 'Categorize songs with AI (analyze or analyze --type=<dimension>)',
+    usage: [
+      'analyze',
+      'analyze --type=<dimension>|all',
+      'analyze --force',
+      'analyze --since=<YYYY-MM-DD>',
+      'analyze --song=<id> [--song=<id> ...]',
+      'analyze --concurrency=<n>',
+    ],
+    flags: [
+      {
+        name: 'type',
+        description: 'Taxonomy dimension to analyze, e.g. mood or genre (default: all)',
+        type: 'string',
+        valueName: '<type>',
+      },
+      {
+        name: 'force',
+        description: 'Re-analyze every song, replacing its AI categories',
+        type: 'boolean',
+      },
+      {
+        name: 'since',
+        description: 'Re-analyze songs added on or after this date',
+        type: 'string',
+        valueName: '<date>',
+      },
+      {
+        name: 'song',
+        description: 'Re-analyze a specific song by video ID',
+        type: 'string',
+        multiple: true,
+        valueName: '<id>',
+      },
+      {
+        name: 'concurrency',
+        description: 'Batches to send at once (default: analysis.concurrency in the config)',
+        type: 'string',
+        valueName: '<n>',
+      },
+    ],
+  },
+  {
+    name: 'categories',
+    description: 'Inspect labels (categories normalize to clean up, categories rejected)',
+    usage: [
+      'categories [list]',
+      'categories normalize [--dry-run]',
+      'categories rejected [--clear]',
+    ],
+    flags: [
+      {
+        name: 'dry-run',
+        description: 'Show what normalize would change without writing',
+        type: 'boolean',
+      },
+      {
+        name: 'clear',
+        description: 'Delete the list of rejected labels (with categories rejected)',
+        type: 'boolean',
+      },
+    ],
+  },
+  {
+    name: 'tag',
+    description: 'Set your own labels for a song, overriding AI ones (tag <id> genre=jazz)',
+    usage: ['tag <song-id> <dimension>=<value>[,<value>] ...'],
+  },
+  {
+    name: 'untag',
+    description: 'Remove your labels from a song (untag <id> [genre[=jazz]])',
+    usage: ['untag <song-id>', 'untag <song-id> <dimension>[=<value>] ...'],
+  },
+  {
+    name: 'tags',
+    description: "Show a song's labels and tags",
+    usage: ['tags <song-id>'],
+  },
+  {
+    name: 'create',
+    description: 'Create AI-suggested playlists (or create "<request>" for one curated playlist)',
+    usage: [
+      'create',
+      'create "<request>"',
+      'create --min-confidence=<0-1>',
+      'create --shape=<shape>',
+      'create --preview',
+      'create --dry-run',
+      'create --min-size=<n> --max-size=<n>',
+      'create --exclusive',
+      'create --max-overlap=<n>',
+    ],
+    flags: [
+      {
+        name: 'min-size',
+        description: 'Skip playlists with fewer songs than this',
+        type: 'string',
+        valueName: '<n>',
+      },
+      {
+        name: 'max-size',
+        description: 'Keep only the best-fitting songs of larger playlists',
+        type: 'string',
+        valueName: '<n>',
+      },
+      {
+        name: 'exclusive',
+        description: 'Put each song only in the suggested playlist it fits best',
+        type: 'boolean',
+      },
+      {
+        name: 'max-overlap',
+        description: 'Put each song in at most this many suggested playlists',
+        type: 'string',
+        valueName: '<n>',
+      },
+      {
+        name: 'preview',
+        description: 'Review each playlist and its changes: accept, reject, rename or edit filters',
+        type: 'boolean',
+      },
+      {
+        name: 'dry-run',
+        description: 'Show the playlists and their changes without writing',
+        type: 'boolean',
+      },
+      {
+        name: 'shape',
+        description: `Energy curve to order songs by: ${PLAYLIST_SHAPES.join(', ')} or none (default: ${PLAYLIST_CREATION.DEFAULT_SHAPE})`,
+        type: 'string',
+        valueName: '<shape>',
+      },
+      {
+        name: 'min-confidence',
+        description: `Ignore category labels below this confidence (default: ${ANALYSIS.DEFAULT_MIN_CONFIDENCE})`,
+        type: 'string',
+        valueName: '<0-1>',
+      },
+    ],
+  },
+  {
+    name: 'push',
+    description: 'Push local playlists to YouTube Music',
+    usage: ['push'],
+  },
+  {
+    name: 'quota',
+    description: "Show today's YouTube API quota usage",
+    usage: ['quota', 'quota --day=<YYYY-MM-DD>'],
+    flags: [
+      {
+        name: 'day',
+        description: 'Show usage for a past Pacific-time day',
+        type: 'string',
+        valueName: '<date>',
+      },
+    ],
+  },
+  {
+    name: 'playlists',
+    description:
+      'playlists list, playlists clear, playlists define <name> "<expression>", playlists order <name>',
+    usage: [
+      'playlists [list]',
+      'playlists clear',
+      'playlists define <name> "<expression>" [--shape=<shape>]',
+      'playlists order <name> [--shape=<shape>]',
+    ],
+    flags: [
+      {
+        name: 'shape',
+        description: `Energy curve to order songs by: ${PLAYLIST_SHAPES.join(', ')} or none (default: ${PLAYLIST_CREATION.DEFAULT_SHAPE})`,
+        type: 'string',
+        valueName: '<shape>',
+      },
+    ],
+  },
+  {
+    name: 'status',
+    description: 'Show library stats',
+    usage: ['status'],
+  },
+  {
+    name: 'reset',
+    description: 'Clear all data (keeps sources)',
+    usage: ['reset'],
+  },
+  {
+    name: 'info',
+    description: 'Show app info',
+    usage: ['info'],
+  },
+  {
+    name: 'help',
+    description: 'Show help (help <command> for details)',
+    usage: ['help', 'help <command>'],
+  },
+  {
+    name: 'clear',
+    description: 'Clear screen',
+    usage: ['clear'],
+  },
+  {
+    name: 'exit',
+    description: 'Exit djemini',
+    usage: ['exit'],
+  },
+];
+
+export function findCommand(name: string): CommandDefinition | undefined {
+  return COMMANDS.find(command => command.name === name.toLowerCase());
+}
+
+export function printCommandList(): void {
+  logger.log(chalk.cyan('Commands:'));
+  COMMANDS.forEach(command => {
+    logger.log(`  ${chalk.yellow(command.name.padEnd(12))} ${chalk.dim(command.description)}`);
+  });
+}
+
+export function printCommandHelp(command: CommandDefinition): void {
+  logger.log('');
+  logger.log(chalk.bold.magenta(command.name) + chalk.dim(` - ${command.description}`));
+  logger.log('');
+  logger.log(chalk.cyan('Usage:'));
+  command.usage.forEach(line => logger.log(`  ${line}`));
+
+  const flags = [...(command.flags ?? []), HELP_FLAG];
+  logger.log('');
+  logger.log(chalk.cyan('Options:'));
+  flags.forEach(flag => {
+    const label = `--${flag.name}${flag.type === 'string' ? ` ${flag.valueName ?? '<value>'}` : ''}`;
+    const repeat = flag.multiple ? ' (repeatable)' : '';
+    logger.log(`  ${chalk.yellow(label.padEnd(24))} ${chalk.dim(flag.description + repeat)}`);
+  });
+  logger.log('');
+}
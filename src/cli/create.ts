@@ -1,27 +1,112 @@
 import { getDatabase } from '../db';
 import { logger } from '../utils/logger';
-import { GeminiService } from '../services/gemini';
+import { createProvider } from '../services/provider';
+import { SMART_PLAYLIST_TYPE } from '../services/smart-playlists';
+import { orderPlaylist, parseShape } from '../services/ordering';
+import { estimateTokens, formatLibrarySong, type LLMProvider } from '../services/llm';
 import chalk from 'chalk';
-import type { Song, Category } from '../types';
+import inquirer from 'inquirer';
+import type { Playlist, Song } from '../types';
+import {
+  ANALYSIS,
+  EXIT_CODES,
+  PLAYLIST_CREATION,
+  PLAYLIST_SHAPES,
+  type PlaylistShape,
+} from '../utils/constants';
+import { exitCodeFor, UsageError } from '../utils/errors';
+import { getBooleanFlag, getStringFlag, type ParsedArgs } from '../utils/args';
+import { getDimension, getTaxonomy } from '../utils/config';
+import { normalizeLabel } from '../utils/vocabulary';
 
-interface SongWithCategories extends Song {
-  moods: string[];
-  genres: string[];
-  energy: string | null;
+interface SongWithLabels extends Song {
+  labels: Record<string, string[]>; // Dimension name -> values
+  confidence: Record<string, number>; // "dimension:value" -> confidence of that label
 }
 
-export async function handleCreateCommand(args: string[]): Promise<void> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    logger.error('GEMINI_API_KEY not found in .env');
+// A playlist that create is about to write
+interface PlaylistDraft {
+  definition: Pick<Playlist, 'name' | 'description' | 'category_type' | 'category_value'>;
+  filters: Record<string, string[]> | null; // Null for curated requests, which have none
+  songIds: string[]; // Best fitting first
+  matches: number; // Songs that fit before size and overlap limits
+  reassigned: number | null; // Dropped under --min-size: how many of its songs others took
+}
+
+// 'preview' asks about every playlist before writing it, 'dry-run' writes nothing
+type CreateMode = 'save' | 'preview' | 'dry-run';
+
+interface CreateOptions {
+  mode: CreateMode;
+  shape: PlaylistShape | null | undefined; // undefined keeps an existing playlist's shape
+  minSize: number;
+  maxSize: number; // Infinity when unlimited
+  maxOverlap: number; // Generated playlists a song may be in; Infinity when unlimited
+}
+
+export async function handleCreateCommand(args: ParsedArgs): Promise<void> {
+  const minConfidence = parseFloat(
+    getStringFlag(args, 'min-confidence') ?? String(ANALYSIS.DEFAULT_MIN_CONFIDENCE)
+  );
+  if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    logger.error('Invalid --min-confidence. Use a number between 0 and 1');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const shapeArg = getStringFlag(args, 'shape');
+  const shape = shapeArg === undefined ? undefined : parseShape(shapeArg);
+  if (shapeArg !== undefined && shape === undefined) {
+    logger.error(`Invalid --shape. Use: ${PLAYLIST_SHAPES.join(', ')}, or none`);
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const sizeFlags = ['min-size', 'max-size', 'max-overlap'] as const;
+  const sizes = sizeFlags.map(name => {
+    const value = getStringFlag(args, name);
+    return value === undefined ? undefined : Number(value);
+  });
+  const invalid = sizeFlags.find(
+    (_, i) => sizes[i] !== undefined && !(Number.isInteger(sizes[i]) && sizes[i]! > 0)
+  );
+  if (invalid) {
+    logger.error(`Invalid --${invalid}. Use a positive whole number`);
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+  const [minSize = 1, maxSize = Infinity, maxOverlap = Infinity] = sizes;
+  if (minSize > maxSize) {
+    logger.error('Invalid --min-size. It cannot be larger than --max-size');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  let mode: CreateMode = 'save';
+  if (getBooleanFlag(args, 'dry-run')) mode = 'dry-run';
+  else if (getBooleanFlag(args, 'preview')) mode = 'preview';
+
+  const options: CreateOptions = {
+    mode,
+    shape,
+    minSize,
+    maxSize,
+    maxOverlap: getBooleanFlag(args, 'exclusive') ? 1 : maxOverlap,
+  };
+
+  let provider: LLMProvider;
+  try {
+    provider = createProvider();
+  } catch (error: any) {
+    logger.error(error.message);
+    process.exitCode = exitCodeFor(error);
     return;
   }
 
   const db = getDatabase();
-  const gemini = new GeminiService(apiKey);
 
   // Get all processed songs with their categories
-  const songs = db.getAllSongs().filter(s => s.ai_processed);
+  const songs = db.getAnalyzedSongs();
 
   if (songs.length === 0) {
     logger.log('');
@@ -31,51 +116,59 @@ export async function handleCreateCommand(args: string[]): Promise<void> {
     return;
   }
 
+  // Build song data with categories, ignoring low-certainty labels
+  const songsWithLabels: SongWithLabels[] = songs.map(song => {
+    const labels: SongWithLabels['labels'] = {};
+    const confidence: SongWithLabels['confidence'] = {};
+    for (const category of db.getCategoriesBySongId(song.id, minConfidence)) {
+      (labels[category.type] ??= []).push(category.value);
+      confidence[`${category.type}:${category.value}`] = category.confidence;
+    }
+    return { ...song, labels, confidence };
+  });
+
+  // A free-text request ("create rainy sunday morning coffee") builds one curated playlist
+  const request = args.positionals.join(' ').trim();
+  if (request) {
+    await createFromRequest(provider, request, songsWithLabels, options);
+    return;
+  }
+
   logger.log('');
   logger.info(`Analyzing ${songs.length} songs to create logical playlists...`);
   logger.log('');
 
-  // Build song data with categories
-  const songsWithCategories: SongWithCategories[] = songs.map(song => {
-    const categories = db.getCategoriesBySongId(song.id);
-    return {
-      ...song,
-      moods: categories.filter(c => c.type === 'mood').map(c => c.value),
-      genres: categories.filter(c => c.type === 'genre').map(c => c.value),
-      energy: categories.find(c => c.type === 'energy')?.value || null,
-    };
-  });
-
-  // Get category statistics for the prompt
-  const allMoods = new Set<string>();
-  const allGenres = new Set<string>();
-  const energyLevels = new Map<string, number>();
+  const taxonomy = getTaxonomy();
 
-  songsWithCategories.forEach(song => {
-    song.moods.forEach(m => allMoods.add(m));
-    song.genres.forEach(g => allGenres.add(g));
-    if (song.energy) {
-      energyLevels.set(song.energy, (energyLevels.get(song.energy) || 0) + 1);
+  // Count how many songs carry each value, per dimension
+  const breakdown = new Map<string, Map<string, number>>();
+  for (const dimension of taxonomy) {
+    const counts = new Map<string, number>();
+    for (const song of songsWithLabels) {
+      for (const value of song.labels[dimension.name] ?? []) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
     }
-  });
+    if (counts.size > 0) breakdown.set(dimension.name, counts);
+  }
 
-  logger.dim('Library breakdown:');
-  logger.dim(`  Moods: ${Array.from(allMoods).join(', ')}`);
-  logger.dim(`  Genres: ${Array.from(allGenres).join(', ')}`);
-  logger.dim(
-    `  Energy: ${Array.from(energyLevels.entries())
-      .map(([k, v]) => `${k}(${v})`)
-      .join(', ')}`
-  );
+  logger.dim(`Library breakdown (confidence ≥ ${minConfidence}):`);
+  for (const [name, counts] of breakdown) {
+    logger.dim(
+      `  ${name}: ${Array.from(counts.entries())
+        .map(([k, v]) => `${k}(${v})`)
+        .join(', ')}`
+    );
+  }
   logger.log('');
 
-  // Ask Gemini to suggest playlist groupings
+  // Ask the AI provider to suggest playlist groupings
   try {
     logger.info('Asking AI for playlist suggestions...');
-    const suggestions = await gemini.suggestPlaylists(
-      Array.from(allMoods),
-      Array.from(allGenres),
-      Array.from(energyLevels.keys())
+    const suggestions = await provider.suggestPlaylists(
+      Object.fromEntries(
+        Array.from(breakdown, ([name, counts]) => [name, Array.from(counts.keys())])
+      )
     );
 
     if (suggestions.length === 0) {
@@ -87,70 +180,498 @@ export async function handleCreateCommand(args: string[]): Promise<void> {
     logger.success(`✓ AI suggested ${suggestions.length} playlists:`);
     logger.log('');
 
-    // Create playlists
-    for (const suggestion of suggestions) {
-      logger.log(chalk.cyan(`📁 ${suggestion.name}`));
-      logger.dim(`   ${suggestion.description}`);
-
-      // Find matching songs
-      const matchingSongs = songsWithCategories.filter(song => {
-        const moodMatch =
-          !suggestion.filters.mood || suggestion.filters.mood.some(m => song.moods.includes(m));
-        const genreMatch =
-          !suggestion.filters.genre || suggestion.filters.genre.some(g => song.genres.includes(g));
-        const energyMatch =
-          !suggestion.filters.energy ||
-          (song.energy && suggestion.filters.energy.includes(song.energy));
-
-        return moodMatch && genreMatch && energyMatch;
+    // Filters on dimensions outside the library's labels are ignored
+    const drafts = suggestions.map((suggestion): PlaylistDraft => {
+      const filters = Object.fromEntries(
+        Object.entries(suggestion.filters).filter(([name]) => breakdown.has(name))
+      );
+      const songIds = matchSongs(songsWithLabels, filters);
+      return {
+        definition: {
+          name: suggestion.name,
+          description: suggestion.description || null,
+          category_type: 'ai_group',
+          category_value: suggestion.name.toLowerCase().replace(/\s+/g, '_'),
+        },
+        filters,
+        songIds,
+        matches: songIds.length,
+        reassigned: null,
+      };
+    });
+    assignSongs(drafts, songsWithLabels, options);
+
+    const saved = await saveDrafts(drafts, songsWithLabels, options);
+
+    if (mode === 'dry-run') {
+      logger.info('Dry run: no playlists were written');
+    } else if (saved > 0) {
+      logger.success(`✓ Saved ${saved} playlists`);
+      logger.dim('View with "status" command');
+    } else {
+      logger.warn('No playlists were saved');
+    }
+    logger.log('');
+  } catch (error: any) {
+    logger.error(`Failed to create playlists: ${error.message}`);
+    logger.log('');
+    process.exitCode = exitCodeFor(error);
+  }
+}
+
+// Send the request with the library in chunks that fit the token budget, and keep the songs
+// the AI picked that really are in the library
+async function createFromRequest(
+  provider: LLMProvider,
+  request: string,
+  songs: SongWithLabels[],
+  options: CreateOptions
+): Promise<void> {
+  const chunks: SongWithLabels[][] = [];
+  let current: SongWithLabels[] = [];
+  let tokens = 0;
+  for (const song of songs) {
+    const cost = estimateTokens(formatLibrarySong(song)) + 1;
+    if (current.length > 0 && tokens + cost > PLAYLIST_CREATION.LIBRARY_CHUNK_TOKENS) {
+      chunks.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(song);
+    tokens += cost;
+  }
+  chunks.push(current);
+
+  logger.log('');
+  logger.info(`Curating "${request}" from ${songs.length} songs...`);
+  if (chunks.length > 1) {
+    logger.dim(`Library sent in ${chunks.length} parts`);
+  }
+  logger.log('');
+
+  const library = new Set(songs.map(song => song.id));
+  const picked = new Set<string>();
+  let unknown = 0;
+  let name = '';
+  let description = '';
+
+  try {
+    for (const [index, chunk] of chunks.entries()) {
+      const result = await provider.curatePlaylist(request, chunk, {
+        index,
+        total: chunks.length,
       });
+      const valid = result.song_ids.filter(id => library.has(id));
+      unknown += result.song_ids.length - valid.length;
 
-      if (matchingSongs.length > 0) {
-        // Check if playlist already exists
-        const existingPlaylist = db.getPlaylistByName(suggestion.name);
-
-        if (existingPlaylist) {
-          // Update existing playlist
-          logger.info(`Updating "${suggestion.name}"...`);
-
-          // Clear old songs
-          db.clearPlaylistSongs(existingPlaylist.id);
-
-          // Add new matching songs
-          for (const song of matchingSongs) {
-            db.addSongToPlaylist(existingPlaylist.id, song.id);
-          }
-
-          logger.success(`   ✓ Updated with ${matchingSongs.length} songs`);
-        } else {
-          // Create new playlist
-          const playlistId = `pl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          db.insertPlaylist({
-            id: playlistId,
-            name: suggestion.name,
-            youtube_playlist_id: null,
-            category_type: 'ai_group',
-            category_value: suggestion.name.toLowerCase().replace(/\s+/g, '_'),
-          });
-
-          // Add songs to playlist
-          for (const song of matchingSongs) {
-            db.addSongToPlaylist(playlistId, song.id);
-          }
-
-          logger.success(`   ✓ Created with ${matchingSongs.length} songs`);
-        }
-      } else {
-        logger.dim(`   No matching songs`);
+      // Name the playlist after the first part that contributed songs
+      if (!name || (picked.size === 0 && valid.length > 0)) {
+        name = result.name;
+        description = result.description;
+      }
+      valid.forEach(id => picked.add(id));
+      if (chunks.length > 1) {
+        logger.dim(`  Part ${index + 1}/${chunks.length}: ${valid.length} songs`);
       }
-      logger.log('');
     }
+  } catch (error: any) {
+    logger.error(`Failed to create playlist: ${error.message}`);
+    logger.log('');
+    process.exitCode = exitCodeFor(error);
+    return;
+  }
+
+  if (chunks.length > 1) logger.log('');
+  if (unknown > 0) {
+    logger.dim(`Ignored ${unknown} song IDs that are not in your library`);
+  }
 
-    logger.success('✓ Playlists created!');
-    logger.dim('View with "status" command');
+  if (picked.size === 0) {
+    logger.warn('No songs in your library fit this request');
     logger.log('');
-  } catch (error: any) {
-    logger.error(`Failed to create playlists: ${error.message}`);
+    return;
+  }
+
+  const draft: PlaylistDraft = {
+    definition: {
+      name,
+      description: description || null,
+      category_type: 'ai_request',
+      category_value: request,
+    },
+    filters: null,
+    songIds: rankPicks([...picked], songs).slice(0, options.maxSize),
+    matches: picked.size,
+    reassigned: null,
+  };
+  const saved = await saveDrafts([draft], songs, options);
+  if (options.mode === 'dry-run') {
+    logger.info('Dry run: the playlist was not written');
+    logger.log('');
+  } else if (saved > 0) {
+    logger.dim('Run "push" to upload it to YouTube Music');
+    logger.log('');
+  }
+}
+
+// Songs that share at least one value with every filter, best fitting first
+function matchSongs(songs: SongWithLabels[], filters: Record<string, string[]>): string[] {
+  return songs
+    .filter(song =>
+      Object.entries(filters).every(([name, values]) =>
+        values.some(value => song.labels[name]?.includes(value))
+      )
+    )
+    .map(song => ({ id: song.id, score: fitScore(song, filters) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ id }) => id);
+}
+
+// Confidences of the song's labels that match the filters, summed: songs that match more
+// values, and more surely, fit better
+function fitScore(song: SongWithLabels, filters: Record<string, string[]>): number {
+  return Object.entries(filters)
+    .flatMap(([name, values]) => values.map(value => song.confidence[`${name}:${value}`] ?? 0))
+    .reduce((sum, confidence) => sum + confidence, 0);
+}
+
+// Curated songs have no filters to fit, so rank them by how typical they are of the pick: each
+// of a song's labels counts by how many picked songs share it, times the song's confidence in it
+function rankPicks(songIds: string[], songs: SongWithLabels[]): string[] {
+  const library = new Map(songs.map(song => [song.id, song]));
+  const picked = songIds.map(id => library.get(id)!);
+
+  const shared = new Map<string, number>(); // "dimension:value" -> picked songs with that label
+  for (const song of picked) {
+    for (const label of Object.keys(song.confidence)) {
+      shared.set(label, (shared.get(label) ?? 0) + 1);
+    }
+  }
+
+  return picked
+    .map(song => ({
+      id: song.id,
+      score: Object.entries(song.confidence).reduce(
+        (sum, [label, confidence]) => sum + shared.get(label)! * confidence,
+        0
+      ),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ id }) => id);
+}
+
+/**
+ * Hand out songs best fit first: each goes to the playlists it fits best, at most maxOverlap
+ * of them, until a playlist holds maxSize songs. Playlists left under minSize are dropped one
+ * at a time, those with the fewest matching songs first, and their songs offered to the others
+ * again.
+ */
+function assignSongs(
+  drafts: PlaylistDraft[],
+  songs: SongWithLabels[],
+  options: CreateOptions
+): void {
+  const library = new Map(songs.map(song => [song.id, song]));
+  const candidates = drafts
+    .flatMap(draft =>
+      draft.songIds.map(id => ({ draft, id, score: fitScore(library.get(id)!, draft.filters!) }))
+    )
+    .sort((a, b) => b.score - a.score);
+  const active = new Set(drafts);
+
+  for (;;) {
+    const assigned = new Map(drafts.map(draft => [draft, [] as string[]]));
+    const uses = new Map<string, number>();
+
+    for (const { draft, id } of candidates) {
+      const songIds = assigned.get(draft)!;
+      const count = uses.get(id) ?? 0;
+      if (!active.has(draft) || songIds.length >= options.maxSize) continue;
+      if (count >= options.maxOverlap) continue;
+      songIds.push(id);
+      uses.set(id, count + 1);
+    }
+
+    for (const draft of active) draft.songIds = assigned.get(draft)!;
+
+    const small = [...active]
+      .filter(draft => draft.songIds.length < options.minSize)
+      .sort((a, b) => a.matches - b.matches || a.songIds.length - b.songIds.length);
+    if (small.length === 0) break;
+    active.delete(small[0]!);
+    small[0]!.songIds = [];
+    small[0]!.reassigned = 0;
+  }
+
+  const placed = new Set([...active].flatMap(draft => draft.songIds));
+  for (const { draft, id } of candidates) {
+    if (draft.reassigned !== null && placed.has(id)) draft.reassigned++;
+  }
+}
+
+// Show each draft and, when previewing, ask what to do with it. Accepted drafts are written
+// only once every decision is made, in one transaction. Returns the number saved.
+async function saveDrafts(
+  drafts: PlaylistDraft[],
+  songs: SongWithLabels[],
+  options: CreateOptions
+): Promise<number> {
+  const library = new Map(songs.map(song => [song.id, song]));
+  const accepted: PlaylistDraft[] = [];
+
+  for (const draft of drafts) {
+    printDraft(draft, library, options);
+
+    if (options.mode === 'preview') {
+      let approved: boolean;
+      try {
+        approved = await reviewDraft(draft, songs, library, options);
+      } catch (error) {
+        // Ctrl+C: nothing has been written yet
+        logger.log('');
+        logger.error('Cancelled');
+        logger.log('');
+        return 0;
+      }
+      if (!approved) {
+        logger.dim('   Rejected');
+        logger.log('');
+        continue;
+      }
+    }
+
+    if (draft.songIds.length >= options.minSize) accepted.push(draft);
     logger.log('');
   }
+
+  if (options.mode === 'dry-run' || accepted.length === 0) return 0;
+
+  const saved = getDatabase().transaction(
+    () =>
+      accepted.filter(draft => savePlaylist(draft.definition, draft.songIds, options.shape)).length
+  );
+  logger.log('');
+  return saved;
+}
+
+// Ask to accept, reject, rename or edit the filters of a draft until it is accepted or rejected.
+// Edited filters are held to the size limits but not to --max-overlap.
+async function reviewDraft(
+  draft: PlaylistDraft,
+  songs: SongWithLabels[],
+  library: Map<string, SongWithLabels>,
+  options: CreateOptions
+): Promise<boolean> {
+  for (;;) {
+    const choices = [
+      ...(draft.songIds.length >= options.minSize ? [{ name: 'Accept', value: 'accept' }] : []),
+      { name: 'Reject', value: 'reject' },
+      { name: 'Rename', value: 'rename' },
+      ...(draft.filters ? [{ name: 'Edit filters', value: 'filters' }] : []),
+    ];
+    const { action } = await inquirer.prompt([
+      {
+        type: 'select',
+        name: 'action',
+        message: `"${draft.definition.name}":`,
+        choices,
+      },
+    ]);
+
+    if (action === 'accept') return true;
+    if (action === 'reject') return false;
+
+    if (action === 'rename') {
+      const { name } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'name',
+          message: 'New name:',
+          default: draft.definition.name,
+          validate: (input: string) => input.trim() !== '' || 'Enter a name',
+        },
+      ]);
+      draft.definition.name = name.trim();
+    } else {
+      const { filters } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'filters',
+          message: 'Filters (e.g. genre=rock,indie energy=high):',
+          default: formatFilters(draft.filters!),
+          validate: (input: string) => {
+            try {
+              parseFilters(input);
+              return true;
+            } catch (error: any) {
+              return error.message;
+            }
+          },
+        },
+      ]);
+      draft.filters = parseFilters(filters);
+      const songIds = matchSongs(songs, draft.filters);
+      draft.songIds = songIds.slice(0, options.maxSize);
+      draft.matches = songIds.length;
+      draft.reassigned = null;
+    }
+
+    logger.log('');
+    printDraft(draft, library, options);
+  }
+}
+
+// Name, filters, size and what changes in an existing playlist of the same name. When
+// previewing, also list some of the songs that are added and removed.
+function printDraft(
+  draft: PlaylistDraft,
+  library: Map<string, SongWithLabels>,
+  options: CreateOptions
+): void {
+  const { name, description } = draft.definition;
+  logger.log(chalk.cyan(`📁 ${name}`));
+  if (description) logger.dim(`   ${description}`);
+  if (draft.filters) logger.dim(`   Filters: ${formatFilters(draft.filters) || 'none'}`);
+
+  const count = draft.songIds.length;
+  if (draft.matches === 0) {
+    logger.dim('   No matching songs');
+    return;
+  }
+  if (draft.reassigned !== null && draft.matches < options.minSize) {
+    logger.dim(`   Dropped: only ${draft.matches} matching songs (minimum ${options.minSize})`);
+    return;
+  }
+  if (draft.reassigned !== null) {
+    logger.dim(
+      `   Dropped: fewer than ${options.minSize} songs were left for it; ` +
+        `${draft.reassigned} of its ${draft.matches} matching songs are in other playlists`
+    );
+    return;
+  }
+  if (count < draft.matches) {
+    logger.dim(`   Kept the best ${count} of ${draft.matches} matching songs`);
+  }
+  if (count < options.minSize) {
+    logger.dim(`   Too small to save (minimum ${options.minSize} songs)`);
+    return;
+  }
+
+  const db = getDatabase();
+  const existing = db.getPlaylistByName(name);
+  if (!existing) {
+    logger.dim(`   ${count} songs (new playlist)`);
+    return;
+  }
+  if (existing.category_type === SMART_PLAYLIST_TYPE) {
+    logger.dim(`   ${count} songs, but "${name}" is a smart playlist and will be left alone`);
+    return;
+  }
+
+  const current = db.getPlaylistSongs(existing.id);
+  const currentIds = new Set(current.map(song => song.id));
+  const nextIds = new Set(draft.songIds);
+  const added = draft.songIds.filter(id => !currentIds.has(id)).map(id => library.get(id)!);
+  const removed = current.filter(song => !nextIds.has(song.id));
+
+  if (added.length === 0 && removed.length === 0) {
+    logger.dim(`   ${count} songs, same as the existing playlist`);
+    return;
+  }
+  logger.dim(
+    `   ${count} songs, replacing the existing playlist: +${added.length} added, ` +
+      `−${removed.length} removed, ${count - added.length} kept`
+  );
+  if (options.mode === 'save') return;
+
+  const limit = PLAYLIST_CREATION.PREVIEW_SONGS;
+  for (const [marker, list] of [
+    ['+', added],
+    ['−', removed],
+  ] as const) {
+    for (const song of list.slice(0, limit)) {
+      logger.dim(`     ${marker} ${song.title} - ${song.artist ?? 'Unknown'}`);
+    }
+    if (list.length > limit) logger.dim(`     ${marker} ...and ${list.length - limit} more`);
+  }
+}
+
+// Filters in the form the filter prompt takes: genre=rock,indie energy=high
+function formatFilters(filters: Record<string, string[]>): string {
+  return Object.entries(filters)
+    .map(([name, values]) => `${name}=${values.join(',')}`)
+    .join(' ');
+}
+
+function parseFilters(input: string): Record<string, string[]> {
+  const filters: Record<string, string[]> = {};
+
+  for (const assignment of input.trim().split(/\s+/).filter(Boolean)) {
+    const [name = '', rawValues = ''] = assignment.split('=', 2);
+    const dimension = getDimension(name.toLowerCase());
+    if (!dimension) {
+      throw new UsageError(
+        `Unknown dimension "${name}". Use: ${getTaxonomy()
+          .map(d => d.name)
+          .join(', ')}`
+      );
+    }
+
+    const values = (filters[dimension.name] ??= []);
+    for (const raw of rawValues.split(',').filter(Boolean)) {
+      const value = normalizeLabel(dimension, raw);
+      if (value === null) {
+        throw new UsageError(`"${raw}" is not a ${dimension.name} value`);
+      }
+      if (!values.includes(value)) values.push(value);
+    }
+    if (values.length === 0) {
+      throw new UsageError(`Missing value for ${dimension.name}. Use: ${dimension.name}=<value>`);
+    }
+  }
+
+  return filters;
+}
+
+// Create the playlist, or replace the songs of an existing one with the same name, then
+// order it by its shape. Returns false when the name belongs to a smart playlist, which is
+// left alone.
+function savePlaylist(
+  definition: Pick<Playlist, 'name' | 'description' | 'category_type' | 'category_value'>,
+  songIds: string[],
+  shape: PlaylistShape | null | undefined // undefined keeps an existing playlist's shape
+): boolean {
+  const db = getDatabase();
+  const existingPlaylist = db.getPlaylistByName(definition.name);
+  let playlistId: string;
+
+  if (existingPlaylist?.category_type === SMART_PLAYLIST_TYPE) {
+    logger.dim(`   Skipped: "${definition.name}" is a smart playlist`);
+    return false;
+  }
+
+  if (existingPlaylist) {
+    playlistId = existingPlaylist.id;
+    db.updatePlaylistDefinition(playlistId, definition);
+    if (shape !== undefined) db.setPlaylistShape(playlistId, shape);
+    // Replace songs, keeping push state for songs that are still included
+    db.setPlaylistSongs(playlistId, songIds);
+  } else {
+    playlistId = `pl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    db.insertPlaylist({
+      ...definition,
+      id: playlistId,
+      youtube_playlist_id: null,
+      shape: shape === undefined ? PLAYLIST_CREATION.DEFAULT_SHAPE : shape,
+    });
+    for (const songId of songIds) {
+      db.addSongToPlaylist(playlistId, songId);
+    }
+  }
+
+  orderPlaylist(playlistId);
+  logger.success(
+    `   ✓ ${existingPlaylist ? 'Updated' : 'Created'} "${definition.name}" with ${songIds.length} songs`
+  );
+  return true;
 }
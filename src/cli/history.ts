@@ -0,0 +1,102 @@
+import chalk from 'chalk';
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import { EXIT_CODES } from '../utils/constants';
+import { getStringFlag, type ParsedArgs } from '../utils/args';
+import { getTimeAgo, parseDbTimestamp } from '../utils/time';
+import type { SyncRun } from '../types';
+
+const DEFAULT_LIMIT = 20;
+
+export function handleHistoryCommand(args: ParsedArgs): void {
+  const runArg = args.positionals[0];
+
+  if (runArg !== undefined) {
+    const runId = parseInt(runArg);
+    if (isNaN(runId)) {
+      logger.error('Usage: history [run-id]');
+      logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+    showRun(runId);
+    return;
+  }
+
+  const limit = parseInt(getStringFlag(args, 'limit') ?? String(DEFAULT_LIMIT));
+  if (isNaN(limit) || limit <= 0) {
+    logger.error('Invalid limit');
+    logger.log('');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const runs = getDatabase().getRecentSyncRuns(limit);
+
+  if (runs.length === 0) {
+    logger.log('');
+    logger.dim('No sync runs recorded yet.');
+    logger.dim('Run "sync" to fetch songs from your sources.');
+    logger.log('');
+    return;
+  }
+
+  logger.log('');
+  logger.log(chalk.cyan(`Recent syncs (${runs.length}):`));
+  for (const run of runs) {
+    logger.log(
+      `  ${chalk.yellow(`#${run.id}`)} ${run.source_name} ${chalk.dim(`${getTimeAgo(run.started_at)} · ${describeRun(run)}`)}`
+    );
+  }
+  logger.log('');
+  logger.dim('Run "history <id>" to see the songs added or removed in a run');
+  logger.log('');
+}
+
+function showRun(runId: number): void {
+  const db = getDatabase();
+  const run = db.getSyncRunById(runId);
+
+  if (!run) {
+    logger.error(`Sync run #${runId} not found`);
+    logger.log('');
+    process.exitCode = EXIT_CODES.FAILURE;
+    return;
+  }
+
+  const started = parseDbTimestamp(run.started_at);
+  const duration = run.finished_at
+    ? `${Math.round((parseDbTimestamp(run.finished_at).getTime() - started.getTime()) / 1000)}s`
+    : 'unfinished';
+
+  logger.log('');
+  logger.log(chalk.bold.magenta(`Sync #${run.id} - ${run.source_name}`));
+  logger.log('');
+  logger.log(chalk.gray('Started:   ') + chalk.white(started.toLocaleString()));
+  logger.log(chalk.gray('Duration:  ') + chalk.white(duration));
+  logger.log(chalk.gray('Fetched:   ') + chalk.white(run.fetched));
+  logger.log(chalk.gray('Filtered:  ') + chalk.white(run.filtered));
+  logger.log(chalk.gray('Added:     ') + chalk.white(run.added));
+  logger.log(chalk.gray('Removed:   ') + chalk.white(run.removed));
+  if (run.error) {
+    logger.log(chalk.gray('Error:     ') + chalk.red(run.error));
+  }
+  logger.log('');
+
+  const changes = db.getSyncRunChanges(run.id);
+  for (const change of changes) {
+    const marker = change.change === 'added' ? chalk.green('+') : chalk.red('−');
+    logger.log(
+      `  ${marker} ${change.title} ${chalk.dim(`${change.artist ?? 'Unknown'} · ${change.song_id}`)}`
+    );
+  }
+  if (changes.length > 0) {
+    logger.log('');
+  }
+}
+
+function describeRun(run: SyncRun): string {
+  if (run.error) return chalk.red(`failed: ${run.error}`);
+  if (!run.finished_at) return 'unfinished';
+  return `${run.fetched} fetched, ${run.filtered} filtered, +${run.added} added, −${run.removed} removed`;
+}
@@ -0,0 +1,225 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import {
+  EXIT_CODES,
+  PLAYLIST_CREATION,
+  PLAYLIST_SHAPES,
+  type PlaylistShape,
+} from '../utils/constants';
+import { getTaxonomy } from '../utils/config';
+import { exitCodeFor } from '../utils/errors';
+import { parseFilterExpression } from '../utils/filter-expression';
+import { refreshSmartPlaylist, SMART_PLAYLIST_TYPE } from '../services/smart-playlists';
+import { orderPlaylist, parseShape } from '../services/ordering';
+import { getStringFlag, type ParsedArgs } from '../utils/args';
+
+export async function handlePlaylistsCommand(args: ParsedArgs): Promise<void> {
+  const [rawSubcommand, ...rest] = args.positionals;
+  const subcommand = rawSubcommand?.toLowerCase();
+
+  if (!subcommand || subcommand === 'list') {
+    listPlaylists();
+    return;
+  }
+
+  if (subcommand === 'clear') {
+    await clearPlaylists();
+    return;
+  }
+
+  if (subcommand === 'define' || subcommand === 'order') {
+    const shapeArg = getStringFlag(args, 'shape');
+    const shape = shapeArg === undefined ? undefined : parseShape(shapeArg);
+    if (shapeArg !== undefined && shape === undefined) {
+      logger.error(`Invalid --shape. Use: ${PLAYLIST_SHAPES.join(', ')}, or none`);
+      logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+
+    if (subcommand === 'define') {
+      definePlaylist(rest[0], rest.slice(1).join(' '), shape);
+    } else {
+      reorderPlaylist(rest[0], shape);
+    }
+    return;
+  }
+
+  logger.error(`Unknown subcommand: ${rawSubcommand}`);
+  logger.dim('Usage: playlists [list|clear|define <name> "<expression>"|order <name>]');
+  logger.log('');
+  process.exitCode = EXIT_CODES.USAGE;
+}
+
+function listPlaylists(): void {
+  const db = getDatabase();
+  const playlists = db.getAllPlaylists();
+
+  if (playlists.length === 0) {
+    logger.log('');
+    logger.dim('No playlists found.');
+    logger.dim('Run "create" to generate playlists from your categories.');
+    logger.log('');
+    return;
+  }
+
+  logger.log('');
+  logger.log(chalk.cyan(`Playlists (${playlists.length}):`));
+  logger.log('');
+
+  for (const playlist of playlists) {
+    const { total, pushed } = db.getPlaylistPushProgress(playlist.id);
+    let marker = '○';
+    let detail = `${total} songs`;
+    if (playlist.youtube_playlist_id) {
+      marker = pushed === total ? '✓' : '◐';
+      detail = `${pushed}/${total} pushed`;
+    }
+    logger.log(`  ${marker} ${chalk.white(playlist.name)} ${chalk.dim(`(${detail})`)}`);
+    if (playlist.category_type === SMART_PLAYLIST_TYPE) {
+      logger.dim(`    rule: ${playlist.category_value}`);
+    }
+    if (playlist.shape) {
+      logger.dim(`    order: ${playlist.shape}`);
+    }
+    if (playlist.youtube_playlist_id) {
+      logger.dim(`    https://music.youtube.com/playlist?list=${playlist.youtube_playlist_id}`);
+    }
+  }
+  logger.log('');
+  logger.dim('✓ = pushed to YouTube Music, ◐ = partially pushed, ○ = local only');
+  logger.dim('Run "push" to resume partially pushed playlists');
+  logger.log('');
+}
+
+async function clearPlaylists(): Promise<void> {
+  logger.log('');
+  logger.warn('⚠️  This will delete all local playlists.');
+  logger.dim('Songs and categories will be kept. You can recreate playlists with "create".');
+  logger.log('');
+
+  try {
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Clear all playlists?',
+        default: false,
+      },
+    ]);
+
+    if (confirmed) {
+      getDatabase().clearPlaylists();
+      logger.log('');
+      logger.success('✓ Playlists cleared');
+      logger.log('');
+    } else {
+      logger.log('');
+      logger.info('Cancelled');
+      logger.log('');
+    }
+  } catch (error) {
+    logger.log('');
+    logger.error('Cancelled');
+    logger.log('');
+  }
+}
+
+// Create or redefine a smart playlist; its songs are re-evaluated after every sync and analyze
+function definePlaylist(
+  name: string | undefined,
+  expression: string,
+  shape: PlaylistShape | null | undefined
+): void {
+  logger.log('');
+
+  if (!name || !expression.trim()) {
+    logger.error('Usage: playlists define <name> "<expression>"');
+    logger.dim('Example: playlists define "Indie Energy" "genre:(rock|indie) AND energy:high"');
+    logger.log('');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  try {
+    parseFilterExpression(expression, getTaxonomy());
+  } catch (error: any) {
+    logger.error(error.message);
+    logger.log('');
+    process.exitCode = exitCodeFor(error);
+    return;
+  }
+
+  const db = getDatabase();
+  const existing = db.getPlaylistByName(name);
+  let playlistId: string;
+
+  if (existing) {
+    playlistId = existing.id;
+    db.updatePlaylistDefinition(playlistId, {
+      category_type: SMART_PLAYLIST_TYPE,
+      category_value: expression,
+      description: null,
+    });
+  } else {
+    playlistId = `pl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    db.insertPlaylist({
+      id: playlistId,
+      name,
+      youtube_playlist_id: null,
+      category_type: SMART_PLAYLIST_TYPE,
+      category_value: expression,
+      description: null,
+      shape: shape === undefined ? PLAYLIST_CREATION.DEFAULT_SHAPE : shape,
+    });
+  }
+  if (existing && shape !== undefined) {
+    db.setPlaylistShape(playlistId, shape);
+  }
+
+  const songCount = refreshSmartPlaylist(db.getPlaylistById(playlistId)!);
+
+  logger.success(
+    `✓ ${existing ? 'Redefined' : 'Defined'} smart playlist "${name}" with ${songCount} songs`
+  );
+  logger.dim('It is updated after every "sync" and "analyze". Run "push" to upload it');
+  logger.log('');
+}
+
+// Set a playlist's energy curve (default: keep its current one) and re-sequence its songs
+function reorderPlaylist(name: string | undefined, shape: PlaylistShape | null | undefined): void {
+  logger.log('');
+
+  if (!name) {
+    logger.error(`Usage: playlists order <name> [--shape=${PLAYLIST_SHAPES.join('|')}|none]`);
+    logger.log('');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const db = getDatabase();
+  const playlist = db.getPlaylistByName(name);
+  if (!playlist) {
+    logger.error(`Playlist "${name}" not found`);
+    logger.log('');
+    process.exitCode = EXIT_CODES.FAILURE;
+    return;
+  }
+
+  const newShape =
+    shape === undefined ? (playlist.shape ?? PLAYLIST_CREATION.DEFAULT_SHAPE) : shape;
+  db.setPlaylistShape(playlist.id, newShape);
+  orderPlaylist(playlist.id);
+
+  if (newShape) {
+    logger.success(`✓ Ordered "${name}" as ${newShape}`);
+  } else {
+    logger.success(`✓ "${name}" is back in insertion order`);
+  }
+  if (playlist.youtube_playlist_id) {
+    logger.dim('Songs already on YouTube Music keep their place; new ones are inserted in order');
+  }
+  logger.log('');
+}
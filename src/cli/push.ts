@@ -1,16 +1,31 @@
 import { getDatabase } from '../db';
 import { logger } from '../utils/logger';
 import { YouTubeAuth } from '../api/youtube';
+import { EXIT_CODES, YOUTUBE_QUOTA } from '../utils/constants';
+import { isQuotaError, QuotaExceededError } from '../utils/errors';
+import { QuotaService } from '../services/quota';
+import { getScheduler } from '../services/scheduler';
+import type { ParsedArgs } from '../utils/args';
+import type { Playlist, Song } from '../types';
 
-export async function handlePushCommand(args: string[]): Promise<void> {
+type YouTubeService = ReturnType<YouTubeAuth['getYouTubeService']>;
+type RemoteItem = { id: string; videoId: string };
+
+const ITEM_COST = YOUTUBE_QUOTA.COSTS['playlistItems.insert'];
+
+interface SyncResult {
+  added: number;
+  removed: number;
+  failed: number;
+}
+
+export async function handlePushCommand(args: ParsedArgs): Promise<void> {
   const db = getDatabase();
   const youtubeAuth = new YouTubeAuth();
 
-  // Check authentication by trying to load token
-  try {
-    youtubeAuth.loadToken();
-  } catch (error) {
+  if (!youtubeAuth.loadToken()) {
     logger.error('Not authenticated. Run "auth" first.');
+    process.exitCode = EXIT_CODES.AUTH_REQUIRED;
     return;
   }
 
@@ -24,12 +39,34 @@ export async function handlePushCommand(args: string[]): Promise<void> {
     return;
   }
 
+  const quota = new QuotaService();
+  const budget = quota.getDailyBudget();
+  const remaining = quota.getRemaining();
+  const sizes = playlists.map((p): [Playlist, number] => [p, db.getPlaylistSongs(p.id).length]);
+  const estimate = estimatePushCost(sizes);
+  const nonEmpty = sizes.filter(([, songCount]) => songCount > 0);
+  const minimum = nonEmpty.length > 0 ? Math.min(...nonEmpty.map(([p]) => firstStepCost(p))) : 0;
+
   logger.log('');
-  logger.warn('⚠️  YouTube API Quota Warning:');
-  logger.dim('Each song costs 50 quota units. Daily limit is 10,000 units (≈200 songs).');
-  logger.dim('This push will attempt to add songs. Press Ctrl+C to cancel.');
+  logger.warn('⚠️  YouTube API Quota:');
+  logger.dim(`Remaining today: ${remaining}/${budget} units`);
+  logger.dim(`Estimated cost: ~${estimate} units, plus ${ITEM_COST} per song changed in`);
+  logger.dim('already-pushed playlists. Press Ctrl+C to cancel.');
   logger.log('');
 
+  if (remaining < minimum) {
+    logger.error(`✗ Daily quota budget of ${budget} units is used up`);
+    logger.dim('Run "quota" for details. Try again after midnight Pacific time.');
+    logger.log('');
+    process.exitCode = EXIT_CODES.QUOTA_EXCEEDED;
+    return;
+  }
+
+  if (estimate > remaining) {
+    logger.warn('Push will be trimmed to stay within the remaining budget');
+    logger.log('');
+  }
+
   // Wait 2 seconds to let user read
   await new Promise(resolve => setTimeout(resolve, 2000));
 
@@ -41,6 +78,7 @@ export async function handlePushCommand(args: string[]): Promise<void> {
   let updated = 0;
   let skipped = 0;
   let totalAdded = 0;
+  let totalRemoved = 0;
   let totalFailed = 0;
 
   for (const playlist of playlists) {
@@ -53,112 +91,302 @@ export async function handlePushCommand(args: string[]): Promise<void> {
     }
 
     try {
-      if (!playlist.youtube_playlist_id) {
+      if (quota.getRemaining() < firstStepCost(playlist)) {
+        throw new QuotaExceededError(`Daily budget of ${budget} units reached`);
+      }
+
+      let remoteItems: RemoteItem[] | null = null;
+
+      if (playlist.youtube_playlist_id) {
+        remoteItems = await fetchRemoteItems(youtubeAuth, playlist.youtube_playlist_id);
+        if (!remoteItems) {
+          logger.warn(`"${playlist.name}" was deleted on YouTube, recreating...`);
+        }
+      }
+
+      let result: SyncResult;
+
+      if (!remoteItems) {
         // Create new YouTube playlist
-        logger.info(`Creating "${playlist.name}" (${songs.length} songs)...`);
+        if (quota.getRemaining() < QuotaService.costOf('playlists.insert') + ITEM_COST) {
+          throw new QuotaExceededError(`Not enough budget left to create "${playlist.name}"`);
+        }
 
-        const createResponse = await youtube.playlists.insert({
-          part: ['snippet', 'status'],
-          requestBody: {
-            snippet: {
-              title: playlist.name,
-              description: `Created by djemini - ${playlist.category_type}: ${playlist.category_value}`,
-            },
-            status: {
-              privacyStatus: 'private',
-            },
-          },
-        });
+        logger.info(`Creating "${playlist.name}" (${songs.length} songs)...`);
 
-        const youtubePlaylistId = createResponse.data.id!;
+        const youtubePlaylistId = await createRemotePlaylist(youtube, quota, playlist);
         db.updatePlaylistYouTubeId(playlist.id, youtubePlaylistId);
+        db.setPlaylistPushState(playlist.id, []);
 
-        // Add all songs with progress
-        let addedCount = 0;
-        let failedCount = 0;
+        const [toAdd] = trimToBudget(quota, songs, []);
+        result = await applyDiff(youtube, quota, youtubePlaylistId, songs, [], toAdd, [], songId =>
+          db.markPlaylistSongPushed(playlist.id, songId)
+        );
 
-        for (let i = 0; i < songs.length; i++) {
-          const song = songs[i];
-          if (!song) continue;
+        logger.log('');
+        if (result.failed > 0) {
+          logger.warn(
+            `  ⚠ Created with ${result.added}/${songs.length} songs (${result.failed} unavailable)`
+          );
+        } else {
+          logger.success(`  ✓ Created with ${result.added} songs`);
+        }
+        created++;
+      } else {
+        // Reconcile the journal with YouTube, then resume from the first unpushed song
+        const localIds = new Set(songs.map(s => s.id));
+        db.setPlaylistPushState(
+          playlist.id,
+          remoteItems.map(item => item.videoId)
+        );
+        const missing = db.getUnpushedPlaylistSongs(playlist.id);
+        const removed = remoteItems.filter(item => !localIds.has(item.videoId));
 
-          try {
-            await youtube.playlistItems.insert({
-              part: ['snippet'],
-              requestBody: {
-                snippet: {
-                  playlistId: youtubePlaylistId,
-                  resourceId: {
-                    kind: 'youtube#video',
-                    videoId: song.id,
-                  },
-                },
-              },
-            });
-            addedCount++;
-
-            // Show progress every 10 songs
-            if ((i + 1) % 10 === 0 || i === songs.length - 1) {
-              process.stdout.write(`\r  Progress: ${i + 1}/${songs.length} songs...`);
-            }
-          } catch (error: any) {
-            failedCount++;
-
-            // Check if quota exceeded
-            if (error.message?.includes('quota') || error.code === 403) {
-              logger.log('');
-              logger.error(`  ✗ YouTube API quota exceeded at song ${i + 1}/${songs.length}`);
-              logger.dim(`  Successfully added: ${addedCount}, Failed: ${failedCount}`);
-              logger.log('');
-              logger.warn(
-                '⚠️  Hit daily quota limit. Try again tomorrow or request quota increase:'
-              );
-              logger.dim('https://console.cloud.google.com/apis/api/youtube.googleapis.com/quotas');
-              logger.log('');
-              return;
-            }
-          }
+        if (missing.length === 0 && removed.length === 0) {
+          logger.dim(`✓ "${playlist.name}" - Up to date (${songs.length} songs)`);
+          skipped++;
+          continue;
+        }
+
+        // Keep going: later playlists may only need checking
+        if (quota.getRemaining() < ITEM_COST) {
+          logger.warn(
+            `⚠ "${playlist.name}" - Not enough budget left today for its ` +
+              `${missing.length + removed.length} changes, skipping`
+          );
+          process.exitCode = EXIT_CODES.QUOTA_EXCEEDED;
+          skipped++;
+          continue;
         }
 
+        logger.info(`Updating "${playlist.name}" (+${missing.length}, −${removed.length})...`);
+
+        const [toAdd, toRemove] = trimToBudget(quota, missing, removed);
+        result = await applyDiff(
+          youtube,
+          quota,
+          playlist.youtube_playlist_id!,
+          songs,
+          remoteItems,
+          toAdd,
+          toRemove,
+          songId => db.markPlaylistSongPushed(playlist.id, songId)
+        );
+
         logger.log('');
-        if (failedCount > 0) {
+        if (result.failed > 0) {
           logger.warn(
-            `  ⚠ Created with ${addedCount}/${songs.length} songs (${failedCount} unavailable)`
+            `  ⚠ Added ${result.added}, removed ${result.removed} (${result.failed} failed)`
           );
         } else {
-          logger.success(`  ✓ Created with ${addedCount} songs`);
+          logger.success(`  ✓ Added ${result.added}, removed ${result.removed}`);
         }
-
-        totalAdded += addedCount;
-        totalFailed += failedCount;
-        created++;
-      } else {
-        // For existing playlists, just show info - don't auto-update to save quota
-        const existingCount = songs.length;
-        logger.dim(`⊘ "${playlist.name}" - Already pushed (${existingCount} songs)`);
-        logger.dim(`  Run "playlists clear" then "push" to recreate if needed`);
-        skipped++;
+        updated++;
       }
 
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 500));
+      totalAdded += result.added;
+      totalRemoved += result.removed;
+      totalFailed += result.failed;
     } catch (error: any) {
-      if (error.message?.includes('quota') || error.code === 403) {
+      if (isQuotaError(error)) {
+        logger.log('');
         logger.error(`  ✗ YouTube API quota exceeded`);
+        if (error instanceof QuotaExceededError) {
+          logger.dim(`  ${error.message}`);
+        }
         logger.log('');
-        logger.warn('⚠️  Hit daily quota limit. Try again tomorrow.');
+        logger.warn('⚠️  Hit daily quota limit. Try again tomorrow or request quota increase:');
+        logger.dim('https://console.cloud.google.com/apis/api/youtube.googleapis.com/quotas');
         logger.log('');
+        process.exitCode = EXIT_CODES.QUOTA_EXCEEDED;
         return;
       }
       logger.error(`  ✗ Failed: ${error.message}`);
+      process.exitCode = EXIT_CODES.FAILURE;
     }
 
     logger.log('');
   }
 
   logger.success('✓ Push complete');
-  logger.info(`Created: ${created}, Skipped: ${skipped}`);
-  logger.info(`Songs added: ${totalAdded}, Failed: ${totalFailed}`);
+  logger.info(`Created: ${created}, Updated: ${updated}, Skipped: ${skipped}`);
+  logger.info(`Songs added: ${totalAdded}, Removed: ${totalRemoved}, Failed: ${totalFailed}`);
   logger.log('');
   logger.dim('View your playlists at: https://music.youtube.com/');
   logger.log('');
 }
+
+// Returns null when the playlist no longer exists on YouTube
+async function fetchRemoteItems(
+  youtubeAuth: YouTubeAuth,
+  youtubePlaylistId: string
+): Promise<RemoteItem[] | null> {
+  try {
+    return await youtubeAuth.getPlaylistItems(youtubePlaylistId);
+  } catch (error: any) {
+    if (error.code === 404) return null;
+    throw error;
+  }
+}
+
+// Cheapest call that makes progress on a playlist: listing its items if it was pushed before,
+// otherwise creating it with its first song
+function firstStepCost(playlist: Playlist): number {
+  return playlist.youtube_playlist_id
+    ? QuotaService.costOf('playlistItems.list')
+    : QuotaService.costOf('playlists.insert') + ITEM_COST;
+}
+
+// New playlists are priced in full; already-pushed ones only need their items listed
+function estimatePushCost(playlists: Array<[Playlist, number]>): number {
+  return playlists.reduce((total, [playlist, songCount]) => {
+    if (songCount === 0) return total;
+    if (playlist.youtube_playlist_id) {
+      return total + QuotaService.costOf('playlistItems.list', Math.ceil(songCount / 50));
+    }
+    return (
+      total +
+      QuotaService.costOf('playlists.insert') +
+      QuotaService.costOf('playlistItems.insert', songCount)
+    );
+  }, 0);
+}
+
+// Cut the change set down to what today's remaining budget can pay for
+function trimToBudget(
+  quota: QuotaService,
+  toAdd: Song[],
+  toRemove: RemoteItem[]
+): [Song[], RemoteItem[]] {
+  const affordable = Math.floor(quota.getRemaining() / ITEM_COST);
+  const total = toAdd.length + toRemove.length;
+
+  if (total <= affordable) {
+    return [toAdd, toRemove];
+  }
+
+  logger.warn(`  Trimmed to ${affordable}/${total} changes to stay within today's budget`);
+  const trimmedRemove = toRemove.slice(0, affordable);
+  return [toAdd.slice(0, affordable - trimmedRemove.length), trimmedRemove];
+}
+
+async function createRemotePlaylist(
+  youtube: YouTubeService,
+  quota: QuotaService,
+  playlist: Playlist
+): Promise<string> {
+  const createResponse = await getScheduler('youtube').run(
+    () =>
+      quota.track('playlists.insert', () =>
+        youtube.playlists.insert({
+          part: ['snippet', 'status'],
+          requestBody: {
+            snippet: {
+              title: playlist.name,
+              description:
+                playlist.description ??
+                `Created by djemini - ${playlist.category_type}: ${playlist.category_value}`,
+            },
+            status: {
+              privacyStatus: 'private',
+            },
+          },
+        })
+      ),
+    { idempotent: false }
+  );
+
+  return createResponse.data.id!;
+}
+
+// Songs are inserted right after the closest song that precedes them in the local order, so
+// the playlist follows that order. Items already on YouTube are not moved.
+async function applyDiff(
+  youtube: YouTubeService,
+  quota: QuotaService,
+  youtubePlaylistId: string,
+  songs: Song[],
+  remoteItems: RemoteItem[],
+  toAdd: Song[],
+  toRemove: RemoteItem[],
+  onAdded: (songId: string) => void
+): Promise<SyncResult> {
+  const result: SyncResult = { added: 0, removed: 0, failed: 0 };
+  const total = toAdd.length + toRemove.length;
+  const localOrder = songs.map(song => song.id);
+  const remote = remoteItems.map(item => item.videoId); // Kept in sync with our own changes
+  let done = 0;
+
+  const positionOf = (songId: string): number => {
+    for (let i = localOrder.indexOf(songId) - 1; i >= 0; i--) {
+      const index = remote.lastIndexOf(localOrder[i]!);
+      if (index !== -1) return index + 1;
+    }
+    return 0;
+  };
+
+  const onQuotaExceeded = () => {
+    logger.log('');
+    return new QuotaExceededError(
+      `Stopped after ${done}/${total} changes (added: ${result.added}, removed: ${result.removed})`
+    );
+  };
+
+  for (const item of toRemove) {
+    try {
+      await getScheduler('youtube').run(() =>
+        quota.track('playlistItems.delete', () => youtube.playlistItems.delete({ id: item.id }))
+      );
+      remote.splice(remote.indexOf(item.videoId), 1);
+      result.removed++;
+    } catch (error: any) {
+      if (isQuotaError(error)) throw onQuotaExceeded();
+      result.failed++;
+    }
+    done++;
+    showProgress(done, total);
+  }
+
+  for (const song of toAdd) {
+    const position = positionOf(song.id);
+    try {
+      await getScheduler('youtube').run(
+        () =>
+          quota.track('playlistItems.insert', () =>
+            youtube.playlistItems.insert({
+              part: ['snippet'],
+              requestBody: {
+                snippet: {
+                  playlistId: youtubePlaylistId,
+                  position,
+                  resourceId: {
+                    kind: 'youtube#video',
+                    videoId: song.id,
+                  },
+                },
+              },
+            })
+          ),
+        { idempotent: false } // A retried insert after a server error could add the song twice
+      );
+      remote.splice(position, 0, song.id);
+      onAdded(song.id);
+      result.added++;
+    } catch (error: any) {
+      if (isQuotaError(error)) throw onQuotaExceeded();
+      // Video is private, deleted or region-locked
+      result.failed++;
+    }
+    done++;
+    showProgress(done, total);
+  }
+
+  return result;
+}
+
+// Show progress every 10 changes
+function showProgress(done: number, total: number): void {
+  if (done % 10 === 0 || done === total) {
+    process.stdout.write(`\r  Progress: ${done}/${total} songs...`);
+  }
+}
@@ -0,0 +1,45 @@
+import chalk from 'chalk';
+import { logger } from '../utils/logger';
+import { QuotaService } from '../services/quota';
+import { EXIT_CODES } from '../utils/constants';
+import { getStringFlag, type ParsedArgs } from '../utils/args';
+
+export function handleQuotaCommand(args: ParsedArgs): void {
+  const quota = new QuotaService();
+  const today = QuotaService.getQuotaDay();
+  const day = getStringFlag(args, 'day') ?? today;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    logger.error('Invalid day. Use: YYYY-MM-DD');
+    logger.log('');
+    process.exitCode = EXIT_CODES.USAGE;
+    return;
+  }
+
+  const breakdown = quota.getBreakdown(day);
+  const used = breakdown.reduce((sum, row) => sum + row.units, 0);
+  const budget = quota.getDailyBudget();
+
+  logger.log('');
+  logger.log(chalk.bold.magenta(`YouTube API Quota (${day}, Pacific time)`));
+  logger.log('');
+  logger.log(chalk.gray('Daily budget:   ') + chalk.white(budget));
+  logger.log(chalk.gray('Used:           ') + chalk.white(used));
+  if (day === today) {
+    logger.log(chalk.gray('Remaining:      ') + chalk.white(Math.max(0, budget - used)));
+  }
+  logger.log('');
+
+  if (breakdown.length === 0) {
+    logger.dim('No API calls recorded');
+    logger.log('');
+    return;
+  }
+
+  for (const row of breakdown) {
+    logger.log(
+      `  ${chalk.yellow(row.method.padEnd(22))} ${chalk.white(String(row.units).padStart(6))} ${chalk.dim(`units (${row.calls} calls)`)}`
+    );
+  }
+  logger.log('');
+}
@@ -3,10 +3,15 @@ import { logger } from '../utils/logger';
 import { YouTubeAuth } from '../api/youtube';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import { EXIT_CODES } from '../utils/constants';
+import { exitCodeFor } from '../utils/errors';
+import type { ParsedArgs } from '../utils/args';
+import { getTimeAgo } from '../utils/time';
 
-export async function handleSourcesCommand(args: string[]): Promise<void> {
+export async function handleSourcesCommand(args: ParsedArgs): Promise<void> {
   const db = getDatabase();
-  const [subcommand, ...rest] = args;
+  const [rawSubcommand, ...rest] = args.positionals;
+  const subcommand = rawSubcommand?.toLowerCase();
 
   if (subcommand === 'discover') {
     await discoverPlaylists();
@@ -46,6 +51,7 @@ export async function handleSourcesCommand(args: string[]): Promise<void> {
     if (!input) {
       logger.error('Usage: sources add <playlist-url>');
       logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
       return;
     }
 
@@ -55,6 +61,7 @@ export async function handleSourcesCommand(args: string[]): Promise<void> {
       logger.error('Invalid playlist URL');
       logger.dim('Expected format: https://music.youtube.com/playlist?list=...');
       logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
       return;
     }
 
@@ -85,6 +92,7 @@ export async function handleSourcesCommand(args: string[]): Promise<void> {
       logger.error('Usage: sources remove <id>');
       logger.dim('Get source IDs from: sources');
       logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
       return;
     }
 
@@ -94,6 +102,7 @@ export async function handleSourcesCommand(args: string[]): Promise<void> {
       logger.error('Usage: sources remove <id>');
       logger.dim('Get source IDs from: sources');
       logger.log('');
+      process.exitCode = EXIT_CODES.USAGE;
       return;
     }
 
@@ -101,18 +110,23 @@ export async function handleSourcesCommand(args: string[]): Promise<void> {
     if (!source) {
       logger.error(`Source [${id}] not found`);
       logger.log('');
+      process.exitCode = EXIT_CODES.FAILURE;
       return;
     }
 
-    db.deleteSource(id);
+    const removedSongs = db.deleteSource(id);
     logger.success(`✓ Removed "${source.name}" source`);
+    if (removedSongs > 0) {
+      logger.dim(`${removedSongs} songs no longer belong to any source and were removed`);
+    }
     logger.log('');
     return;
   }
 
-  logger.error(`Unknown subcommand: ${subcommand}`);
+  logger.error(`Unknown subcommand: ${rawSubcommand}`);
   logger.dim('Available: sources, sources discover, sources add <url>, sources remove');
   logger.log('');
+  process.exitCode = EXIT_CODES.USAGE;
 }
 
 function extractPlaylistId(url: string): string | null {
@@ -133,6 +147,7 @@ async function discoverPlaylists(): Promise<void> {
     if (!auth.loadToken()) {
       logger.error('Not authenticated. Run "auth" command first.');
       logger.log('');
+      process.exitCode = EXIT_CODES.AUTH_REQUIRED;
       return;
     }
 
@@ -203,16 +218,6 @@ async function discoverPlaylists(): Promise<void> {
       logger.error('Failed to discover playlists');
     }
     logger.log('');
+    process.exitCode = exitCodeFor(error);
   }
 }
-
-function getTimeAgo(dateStr: string): string {
-  const date = new Date(dateStr);
-  const now = new Date();
-  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-
-  if (seconds < 60) return 'just now';
-  if (seconds < 3600) return `${Math.floor(seconds / 60)} mins ago`;
-  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
-  return `${Math.floor(seconds / 86400)} days ago`;
-}
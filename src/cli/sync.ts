@@ -0,0 +1,70 @@
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import { SyncService } from '../services/sync';
+import { QuotaService } from '../services/quota';
+import { refreshSmartPlaylists } from '../services/smart-playlists';
+import { EXIT_CODES } from '../utils/constants';
+import { exitCodeFor } from '../utils/errors';
+import { getStringFlag, type ParsedArgs } from '../utils/args';
+
+export async function handleSyncCommand(args: ParsedArgs): Promise<void> {
+  logger.log('');
+  try {
+    const db = getDatabase();
+    const syncService = new SyncService();
+    const quota = new QuotaService();
+
+    let sources = db.getAllSources();
+
+    // Check if --source flag is provided
+    const sourceArg = getStringFlag(args, 'source');
+
+    if (sourceArg !== undefined) {
+      const sourceId = parseInt(sourceArg);
+      if (isNaN(sourceId)) {
+        logger.error('Invalid source ID');
+        logger.log('');
+        process.exitCode = EXIT_CODES.USAGE;
+        return;
+      }
+
+      sources = sources.filter(source => source.id === sourceId);
+      if (sources.length === 0) {
+        logger.error(`Source [${sourceId}] not found`);
+        logger.log('');
+        process.exitCode = EXIT_CODES.FAILURE;
+        return;
+      }
+    } else if (sources.length === 0) {
+      logger.warn('No sources found');
+      logger.dim('Add sources with: sources add liked');
+      logger.log('');
+      return;
+    }
+
+    for (const source of sources) {
+      // Skip sources whose list calls would overrun today's budget
+      const cost = syncService.estimateCost(source);
+      const remaining = quota.getRemaining();
+      if (cost > remaining) {
+        logger.warn(
+          `⊘ Skipping ${source.name}: needs ~${cost} quota units, ${remaining} left today`
+        );
+        process.exitCode = EXIT_CODES.QUOTA_EXCEEDED;
+        continue;
+      }
+
+      await syncService.syncSource(source.id);
+    }
+
+    refreshSmartPlaylists();
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('Sync failed');
+    }
+    process.exitCode = exitCodeFor(error);
+  }
+  logger.log('');
+}
@@ -0,0 +1,187 @@
+import chalk from 'chalk';
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import { EXIT_CODES } from '../utils/constants';
+import { getDimension, getTaxonomy } from '../utils/config';
+import { normalizeLabel } from '../utils/vocabulary';
+import { refreshSmartPlaylists } from '../services/smart-playlists';
+import type { ParsedArgs } from '../utils/args';
+import type { Song } from '../types';
+
+// Set user tags, e.g. "tag <id> genre=jazz mood=calm,chill". Tags replace the song's earlier
+// user tags for the same dimension and take precedence over its AI labels.
+export function handleTagCommand(args: ParsedArgs): void {
+  const [songId, ...assignments] = args.positionals;
+
+  if (!songId || assignments.length === 0) {
+    usageError('Usage: tag <song-id> <dimension>=<value>[,<value>] ...');
+    return;
+  }
+
+  const song = findSong(songId);
+  if (!song) return;
+
+  const tags: Record<string, string[]> = {};
+
+  for (const assignment of assignments) {
+    const [name, rawValues] = splitAssignment(assignment);
+    const dimension = getDimension(name);
+
+    if (!dimension) {
+      usageError(
+        `Unknown dimension "${name}". Use: ${getTaxonomy()
+          .map(d => d.name)
+          .join(', ')}`
+      );
+      return;
+    }
+    if (!rawValues) {
+      usageError(`Missing value for ${name}. Use: ${name}=<value>`);
+      return;
+    }
+
+    const values = (tags[name] ??= []);
+    for (const raw of rawValues.split(',')) {
+      const value = normalizeLabel(dimension, raw);
+      if (value === null) {
+        usageError(`"${raw.trim()}" is not a ${name} value. Use: ${dimension.values.join(', ')}`);
+        return;
+      }
+      if (!values.includes(value)) values.push(value);
+    }
+
+    if (dimension.cardinality === 'single' && values.length > 1) {
+      usageError(`${name} takes a single value`);
+      return;
+    }
+  }
+
+  getDatabase().tagSong(song.id, tags);
+  refreshSmartPlaylists();
+
+  logger.log('');
+  logger.success(
+    `✓ Tagged "${song.title}": ${Object.entries(tags)
+      .map(([name, values]) => `${name}=${values.join(',')}`)
+      .join(' ')}`
+  );
+  printTags(song);
+}
+
+// Remove user tags: all of a song's, a dimension's ("genre") or one value ("genre=jazz").
+// The song's AI labels for those dimensions apply again.
+export function handleUntagCommand(args: ParsedArgs): void {
+  const [songId, ...targets] = args.positionals;
+
+  if (!songId) {
+    usageError('Usage: untag <song-id> [<dimension>[=<value>] ...]');
+    return;
+  }
+
+  const song = findSong(songId);
+  if (!song) return;
+
+  const db = getDatabase();
+  let removed = 0;
+
+  if (targets.length === 0) {
+    removed = db.untagSong(song.id);
+  }
+
+  for (const target of targets) {
+    const [name, rawValues] = splitAssignment(target);
+    if (!rawValues) {
+      removed += db.untagSong(song.id, name);
+      continue;
+    }
+
+    const dimension = getDimension(name);
+    for (const raw of rawValues.split(',')) {
+      // Fall back to the raw value for tags set before the vocabulary changed
+      const value = (dimension && normalizeLabel(dimension, raw)) ?? raw.trim().toLowerCase();
+      removed += db.untagSong(song.id, name, value);
+    }
+  }
+
+  if (removed > 0) refreshSmartPlaylists();
+
+  logger.log('');
+  if (removed === 0) {
+    logger.warn('No matching tags to remove');
+  } else {
+    logger.success(`✓ Removed ${removed} tags from "${song.title}"`);
+  }
+  printTags(song);
+}
+
+export function handleTagsCommand(args: ParsedArgs): void {
+  const songId = args.positionals[0];
+
+  if (!songId) {
+    usageError('Usage: tags <song-id>');
+    return;
+  }
+
+  const song = findSong(songId);
+  if (!song) return;
+
+  logger.log('');
+  printTags(song);
+}
+
+function printTags(song: Song): void {
+  const categories = getDatabase().getAllCategoriesBySongId(song.id);
+
+  logger.log(
+    chalk.cyan(`"${song.title}" by ${song.artist || 'Unknown'}`) + chalk.dim(` [${song.id}]`)
+  );
+
+  if (categories.length === 0) {
+    logger.dim('  No labels yet. Run "analyze" or add tags with "tag"');
+    logger.log('');
+    return;
+  }
+
+  const types = [
+    ...new Set([...getTaxonomy().map(d => d.name), ...categories.map(c => c.type)]),
+  ].filter(type => categories.some(c => c.type === type));
+
+  for (const type of types) {
+    const ofType = categories.filter(c => c.type === type);
+    const tagged = ofType.some(c => c.origin === 'user');
+
+    const values = ofType.map(category => {
+      if (category.origin === 'user') {
+        return chalk.green(category.value) + chalk.dim(' (tag)');
+      }
+      // AI labels of a tagged dimension are kept but ignored
+      return tagged
+        ? chalk.dim.strikethrough(category.value)
+        : `${chalk.white(category.value)} ${chalk.dim(category.confidence.toFixed(2))}`;
+    });
+
+    logger.log(`  ${chalk.gray(type.padEnd(10))} ${values.join(', ')}`);
+  }
+  logger.log('');
+}
+
+function findSong(songId: string): Song | null {
+  const song = getDatabase().getSongById(songId);
+  if (!song) {
+    usageError(`Song not found: ${songId}`);
+    return null;
+  }
+  return song;
+}
+
+function splitAssignment(text: string): [name: string, values: string] {
+  const eqIndex = text.indexOf('=');
+  if (eqIndex === -1) return [text.toLowerCase(), ''];
+  return [text.slice(0, eqIndex).toLowerCase(), text.slice(eqIndex + 1)];
+}
+
+function usageError(message: string): void {
+  logger.error(message);
+  logger.log('');
+  process.exitCode = EXIT_CODES.USAGE;
+}
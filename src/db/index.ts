@@ -1,8 +1,22 @@
 import { Database } from 'bun:sqlite';
 import { AppPaths } from '../utils/paths';
-import { SCHEMA } from './schema';
-import type { Song, Category, Playlist, Source, SourceWithStats } from '../types';
+import { MIGRATIONS, SCHEMA } from './schema';
+import type {
+  Song,
+  Category,
+  Playlist,
+  Source,
+  SourceWithStats,
+  QuotaUsage,
+  SongRef,
+  SyncRun,
+  SyncRunChange,
+  AnalysisCoverage,
+  RejectedLabel,
+  AnalysisEntry,
+} from '../types';
 import { logger } from '../utils/logger';
+import type { PlaylistShape } from '../utils/constants';
 
 export class DatabaseService {
   private db: Database;
@@ -16,7 +30,20 @@ export class DatabaseService {
 
   private initialize(): void {
     try {
+      const isNew = !this.db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'songs'")
+        .get();
+
+      // Existing tables must be upgraded before SCHEMA creates indexes on new columns
+      if (!isNew) {
+        this.migrate();
+      }
+
       this.db.exec(SCHEMA);
+
+      if (isNew) {
+        this.db.exec(`PRAGMA user_version = ${MIGRATIONS.length}`);
+      }
       logger.dim('Database initialized');
     } catch (error: any) {
       logger.error(`Failed to initialize database: ${error.message}`);
@@ -24,6 +51,25 @@ export class DatabaseService {
     }
   }
 
+  private migrate(): void {
+    const { user_version: version } = this.db.prepare('PRAGMA user_version').get() as {
+      user_version: number;
+    };
+
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      const applyMigration = this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]!);
+        this.db.exec(`PRAGMA user_version = ${i + 1}`);
+      });
+      applyMigration();
+    }
+  }
+
+  // Run several operations as one: all of them are written or none
+  transaction<T>(operations: () => T): T {
+    return this.db.transaction(operations)();
+  }
+
   // ========== SOURCE OPERATIONS ==========
 
   insertSource(source: Omit<Source, 'id' | 'created_at' | 'last_synced'>): number {
@@ -42,9 +88,9 @@ export class DatabaseService {
 
   getAllSources(): SourceWithStats[] {
     const stmt = this.db.prepare(`
-      SELECT s.*, COUNT(DISTINCT so.id) as song_count
+      SELECT s.*, COUNT(ss.song_id) as song_count
       FROM sources s
-      LEFT JOIN songs so ON s.id = so.source_id
+      LEFT JOIN song_sources ss ON s.id = ss.source_id
       GROUP BY s.id
       ORDER BY s.created_at DESC
     `);
@@ -56,9 +102,15 @@ export class DatabaseService {
     return stmt.get(youtubeId) as Source | null;
   }
 
-  deleteSource(id: number): void {
-    const stmt = this.db.prepare('DELETE FROM sources WHERE id = ?');
-    stmt.run(id);
+  // Remove a source and its memberships; returns how many songs left the library
+  deleteSource(id: number): number {
+    const deleteAll = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM song_sources WHERE source_id = ?').run(id);
+      this.db.prepare('DELETE FROM sources WHERE id = ?').run(id);
+      return this.pruneOrphanSongs();
+    });
+
+    return deleteAll();
   }
 
   updateSourceSyncTime(id: number): void {
@@ -69,28 +121,99 @@ export class DatabaseService {
   // ========== SONG OPERATIONS ==========
 
   insertSong(song: Omit<Song, 'added_at' | 'ai_processed'>): void {
-    const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO songs (id, title, artist, source_id)
-      VALUES (?, ?, ?, ?)
-    `);
-    stmt.run(song.id, song.title, song.artist, song.source_id);
+    this.insertSongs([song]);
   }
 
+  // Songs already in the library just gain a membership for the new source
   insertSongs(songs: Omit<Song, 'added_at' | 'ai_processed'>[]): void {
     const insert = this.db.prepare(`
       INSERT OR IGNORE INTO songs (id, title, artist, source_id)
       VALUES (?, ?, ?, ?)
     `);
+    const addMembership = this.db.prepare(`
+      INSERT OR IGNORE INTO song_sources (song_id, source_id)
+      VALUES (?, ?)
+    `);
 
     const insertMany = this.db.transaction(songs => {
       for (const song of songs) {
         insert.run(song.id, song.title, song.artist, song.source_id);
+        if (song.source_id !== null) {
+          addMembership.run(song.id, song.source_id);
+        }
       }
     });
 
     insertMany(songs);
   }
 
+  getSourceSongIds(sourceId: number): string[] {
+    const rows = this.db
+      .prepare('SELECT song_id FROM song_sources WHERE source_id = ?')
+      .all(sourceId) as { song_id: string }[];
+    return rows.map(row => row.song_id);
+  }
+
+  // Source IDs of every song, for filtering by source
+  getSongSourceIds(): Map<string, number[]> {
+    const rows = this.db.prepare('SELECT song_id, source_id FROM song_sources').all() as {
+      song_id: string;
+      source_id: number;
+    }[];
+
+    const sources = new Map<string, number[]>();
+    for (const row of rows) {
+      sources.set(row.song_id, [...(sources.get(row.song_id) ?? []), row.source_id]);
+    }
+    return sources;
+  }
+
+  /**
+   * Make a source's membership match the fetched tracks: new songs are added, songs that
+   * disappeared lose this membership and leave the library if no other source has them.
+   */
+  reconcileSourceSongs(
+    sourceId: number,
+    songs: Omit<Song, 'added_at' | 'ai_processed'>[]
+  ): { added: SongRef[]; removed: SongRef[] } {
+    const fetchedIds = new Set(songs.map(song => song.id));
+    const currentIds = new Set(this.getSourceSongIds(sourceId));
+    const getSong = this.db.prepare('SELECT id, title, artist FROM songs WHERE id = ?');
+    const removeMembership = this.db.prepare(
+      'DELETE FROM song_sources WHERE source_id = ? AND song_id = ?'
+    );
+
+    const added: SongRef[] = songs
+      .filter(song => !currentIds.has(song.id))
+      .map(({ id, title, artist }) => ({ id, title, artist }));
+    const removed: SongRef[] = [...currentIds]
+      .filter(id => !fetchedIds.has(id))
+      .map(id => getSong.get(id) as SongRef | null)
+      .filter((song): song is SongRef => song !== null);
+
+    const reconcile = this.db.transaction(() => {
+      this.insertSongs(songs);
+      for (const song of removed) {
+        removeMembership.run(sourceId, song.id);
+      }
+      this.pruneOrphanSongs();
+    });
+
+    reconcile();
+    return { added, removed };
+  }
+
+  // Delete songs that no longer belong to any source, along with their categories
+  private pruneOrphanSongs(): number {
+    const orphans = `SELECT id FROM songs WHERE id NOT IN (SELECT song_id FROM song_sources)`;
+    this.db.exec(`DELETE FROM categories WHERE song_id IN (${orphans})`);
+    this.db.exec(`DELETE FROM song_analysis WHERE song_id IN (${orphans})`);
+    this.db.exec(`DELETE FROM rejected_labels WHERE song_id IN (${orphans})`);
+    this.db.exec(`DELETE FROM playlist_songs WHERE song_id IN (${orphans})`);
+    const result = this.db.prepare(`DELETE FROM songs WHERE id IN (${orphans})`).run();
+    return result.changes;
+  }
+
   getSongById(id: string): Song | null {
     const stmt = this.db.prepare('SELECT * FROM songs WHERE id = ?');
     return stmt.get(id) as Song | null;
@@ -101,18 +224,62 @@ export class DatabaseService {
     return stmt.all() as Song[];
   }
 
-  getUnprocessedSongs(limit?: number): Song[] {
-    const query = limit
-      ? 'SELECT * FROM songs WHERE ai_processed = 0 LIMIT ?'
-      : 'SELECT * FROM songs WHERE ai_processed = 0';
+  getSongsMissingAnalysis(type: string): Song[] {
+    const stmt = this.db.prepare(`
+      SELECT s.* FROM songs s
+      WHERE NOT EXISTS (
+        SELECT 1 FROM song_analysis a WHERE a.song_id = s.id AND a.type = ?
+      )
+      ORDER BY s.added_at DESC
+    `);
+    return stmt.all(type) as Song[];
+  }
 
-    const stmt = this.db.prepare(query);
-    return (limit ? stmt.all(limit) : stmt.all()) as Song[];
+  // Songs added to the library on or after the given date, newest first
+  getSongsAddedSince(date: string): Song[] {
+    const stmt = this.db.prepare('SELECT * FROM songs WHERE added_at >= ? ORDER BY added_at DESC');
+    return stmt.all(date) as Song[];
   }
 
-  markSongAsProcessed(id: string): void {
-    const stmt = this.db.prepare('UPDATE songs SET ai_processed = 1 WHERE id = ?');
-    stmt.run(id);
+  // Songs analyzed for at least one category type, or tagged by the user
+  getAnalyzedSongs(): Song[] {
+    const stmt = this.db.prepare(`
+      SELECT s.* FROM songs s
+      WHERE EXISTS (SELECT 1 FROM song_analysis a WHERE a.song_id = s.id)
+        OR EXISTS (SELECT 1 FROM categories c WHERE c.song_id = s.id AND c.origin = 'user')
+      ORDER BY s.added_at DESC
+    `);
+    return stmt.all() as Song[];
+  }
+
+  markSongAnalyzed(songId: string, types: string[], model: string, promptVersion: number): void {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO song_analysis (song_id, type, model, prompt_version)
+      VALUES (?, ?, ?, ?)
+    `);
+    // ai_processed is kept as "analyzed for any type" for older tooling
+    const markProcessed = this.db.prepare('UPDATE songs SET ai_processed = 1 WHERE id = ?');
+
+    const markAll = this.db.transaction(() => {
+      for (const type of types) {
+        upsert.run(songId, type, model, promptVersion);
+      }
+      markProcessed.run(songId);
+    });
+
+    markAll();
+  }
+
+  getAnalysisCoverage(model: string, promptVersion: number): AnalysisCoverage[] {
+    const stmt = this.db.prepare(`
+      SELECT a.type,
+        COUNT(*) as analyzed,
+        SUM(CASE WHEN a.model = ? AND a.prompt_version = ? THEN 1 ELSE 0 END) as current
+      FROM song_analysis a
+      JOIN songs s ON s.id = a.song_id
+      GROUP BY a.type
+    `);
+    return stmt.all(model, promptVersion) as AnalysisCoverage[];
   }
 
   getSongCount(): number {
@@ -122,51 +289,174 @@ export class DatabaseService {
     return result.count;
   }
 
-  getProcessedSongCount(): number {
-    const result = this.db
-      .prepare('SELECT COUNT(*) as count FROM songs WHERE ai_processed = 1')
-      .get() as { count: number };
-    return result.count;
-  }
-
   // ========== CATEGORY OPERATIONS ==========
 
   insertCategory(category: Omit<Category, 'id' | 'created_at'>): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO categories (song_id, type, value, confidence)
-      VALUES (?, ?, ?, ?)
-    `);
-    stmt.run(category.song_id, category.type, category.value, category.confidence);
+    this.insertCategories([category]);
   }
 
+  // Upsert: re-inserting a label only refreshes its confidence
   insertCategories(categories: Omit<Category, 'id' | 'created_at'>[]): void {
     const insert = this.db.prepare(`
-      INSERT INTO categories (song_id, type, value, confidence)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO categories (song_id, type, value, confidence, origin)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (song_id, type, value, origin) DO UPDATE SET confidence = excluded.confidence
     `);
 
     const insertMany = this.db.transaction(categories => {
       for (const cat of categories) {
-        insert.run(cat.song_id, cat.type, cat.value, cat.confidence);
+        insert.run(cat.song_id, cat.type, cat.value, cat.confidence, cat.origin);
       }
     });
 
     insertMany(categories);
   }
 
-  getCategoriesBySongId(songId: string): Category[] {
-    const stmt = this.db.prepare('SELECT * FROM categories WHERE song_id = ?');
+  // Atomically replace a song's AI labels for the given types and record the analysis
+  saveSongAnalysis(
+    songId: string,
+    types: string[],
+    categories: Omit<Category, 'id' | 'created_at'>[],
+    model: string,
+    promptVersion: number
+  ): void {
+    const clear = this.db.prepare(
+      "DELETE FROM categories WHERE song_id = ? AND type = ? AND origin = 'ai'"
+    );
+
+    const save = this.db.transaction(() => {
+      for (const type of types) {
+        clear.run(songId, type);
+      }
+      this.insertCategories(categories);
+      this.markSongAnalyzed(songId, types, model, promptVersion);
+    });
+
+    save();
+  }
+
+  // Save a whole batch of analyses, with their rejected labels, in one transaction. Entries
+  // with a match key also refresh the analysis cache for that key.
+  saveAnalysisBatch(
+    entries: AnalysisEntry[],
+    types: string[],
+    model: string,
+    promptVersion: number
+  ): void {
+    const cache = this.db.prepare(`
+      INSERT OR REPLACE INTO analysis_cache (match_key, type, labels, model, prompt_version)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      for (const entry of entries) {
+        this.saveSongAnalysis(entry.songId, types, entry.categories, model, promptVersion);
+        this.recordRejectedLabels(entry.rejected);
+
+        if (entry.matchKey === null) continue;
+        for (const type of types) {
+          const labels = entry.categories
+            .filter(cat => cat.type === type)
+            .map(cat => ({ value: cat.value, confidence: cat.confidence }));
+          cache.run(entry.matchKey, type, JSON.stringify(labels), model, promptVersion);
+        }
+      }
+    });
+
+    save();
+  }
+
+  // Cached labels per match key and type, from analyses by the same model and prompt version
+  getCachedAnalyses(
+    matchKeys: string[],
+    model: string,
+    promptVersion: number
+  ): Map<string, Record<string, Pick<Category, 'value' | 'confidence'>[]>> {
+    const stmt = this.db.prepare(
+      'SELECT type, labels FROM analysis_cache WHERE match_key = ? AND model = ? AND prompt_version = ?'
+    );
+    const cached = new Map<string, Record<string, Pick<Category, 'value' | 'confidence'>[]>>();
+
+    for (const matchKey of matchKeys) {
+      const rows = stmt.all(matchKey, model, promptVersion) as { type: string; labels: string }[];
+      if (rows.length === 0) continue;
+      cached.set(matchKey, Object.fromEntries(rows.map(row => [row.type, JSON.parse(row.labels)])));
+    }
+
+    return cached;
+  }
+
+  // A song's labels, where user tags for a type replace the AI labels of that type
+  getCategoriesBySongId(songId: string, minConfidence = 0): Category[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM categories c
+      WHERE c.song_id = ? AND c.confidence >= ? AND (
+        c.origin = 'user' OR NOT EXISTS (
+          SELECT 1 FROM categories u
+          WHERE u.song_id = c.song_id AND u.type = c.type AND u.origin = 'user'
+        )
+      )
+    `);
+    return stmt.all(songId, minConfidence) as Category[];
+  }
+
+  // Every label row of a song, AI and user, including AI labels overridden by user tags
+  getAllCategoriesBySongId(songId: string): Category[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM categories WHERE song_id = ? ORDER BY type, origin DESC, confidence DESC'
+    );
     return stmt.all(songId) as Category[];
   }
 
-  getSongsByCategory(type: string, value: string): Song[] {
+  getSongsByCategory(type: string, value: string, minConfidence = 0): Song[] {
     const stmt = this.db.prepare(`
       SELECT DISTINCT s.* FROM songs s
       JOIN categories c ON s.id = c.song_id
-      WHERE c.type = ? AND c.value = ?
+      WHERE c.type = ? AND c.value = ? AND c.confidence >= ? AND (
+        c.origin = 'user' OR NOT EXISTS (
+          SELECT 1 FROM categories u
+          WHERE u.song_id = c.song_id AND u.type = c.type AND u.origin = 'user'
+        )
+      )
       ORDER BY s.added_at DESC
     `);
-    return stmt.all(type, value) as Song[];
+    return stmt.all(type, value, minConfidence) as Song[];
+  }
+
+  // Replace a song's user tags for each given type. AI labels are left alone.
+  tagSong(songId: string, tags: Record<string, string[]>): void {
+    const clear = this.db.prepare(
+      "DELETE FROM categories WHERE song_id = ? AND type = ? AND origin = 'user'"
+    );
+
+    const tag = this.db.transaction(() => {
+      for (const [type, values] of Object.entries(tags)) {
+        clear.run(songId, type);
+        this.insertCategories(
+          values.map(value => ({ song_id: songId, type, value, confidence: 1, origin: 'user' }))
+        );
+      }
+    });
+
+    tag();
+  }
+
+  // Remove a song's user tags: all of them, those of a type, or a single value.
+  // Returns the number of tags removed.
+  untagSong(songId: string, type?: string, value?: string): number {
+    let sql = "DELETE FROM categories WHERE song_id = ? AND origin = 'user'";
+    const params: string[] = [songId];
+
+    if (type !== undefined) {
+      sql += ' AND type = ?';
+      params.push(type);
+    }
+    if (value !== undefined) {
+      sql += ' AND value = ?';
+      params.push(value);
+    }
+
+    return this.db.prepare(sql).run(...params).changes;
   }
 
   getAllCategoriesByType(type: string): { value: string; count: number }[] {
@@ -180,19 +470,104 @@ export class DatabaseService {
     return stmt.all(type) as { value: string; count: number }[];
   }
 
+  // Distinct AI label values per type, for vocabulary clean-up
+  getAiCategoryValues(): { type: string; value: string; count: number }[] {
+    const stmt = this.db.prepare(`
+      SELECT type, value, COUNT(*) as count
+      FROM categories
+      WHERE origin = 'ai'
+      GROUP BY type, value
+      ORDER BY type, value
+    `);
+    return stmt.all() as { type: string; value: string; count: number }[];
+  }
+
+  // Rewrite AI labels to a canonical value, merging with rows that already use it.
+  // Returns the number of rows rewritten.
+  renameAiCategoryValue(type: string, from: string, to: string): number {
+    const rename = this.db.transaction(() => {
+      this.db
+        .prepare(
+          `
+        INSERT INTO categories (song_id, type, value, confidence, origin, created_at)
+        SELECT song_id, type, ?, confidence, origin, created_at FROM categories
+        WHERE type = ? AND value = ? AND origin = 'ai'
+        ON CONFLICT (song_id, type, value, origin)
+        DO UPDATE SET confidence = MAX(confidence, excluded.confidence)
+      `
+        )
+        .run(to, type, from);
+      return this.db
+        .prepare("DELETE FROM categories WHERE type = ? AND value = ? AND origin = 'ai'")
+        .run(type, from).changes;
+    });
+
+    return rename();
+  }
+
+  // Move AI labels outside the vocabulary to rejected_labels. Returns the number of rows moved.
+  rejectAiCategoryValue(type: string, value: string): number {
+    const reject = this.db.transaction(() => {
+      this.db
+        .prepare(
+          `
+        INSERT INTO rejected_labels (song_id, type, value, confidence)
+        SELECT song_id, type, value, confidence FROM categories
+        WHERE type = ? AND value = ? AND origin = 'ai'
+      `
+        )
+        .run(type, value);
+      return this.db
+        .prepare("DELETE FROM categories WHERE type = ? AND value = ? AND origin = 'ai'")
+        .run(type, value).changes;
+    });
+
+    return reject();
+  }
+
+  recordRejectedLabels(labels: Omit<RejectedLabel, 'id' | 'created_at'>[]): void {
+    const insert = this.db.prepare(
+      'INSERT INTO rejected_labels (song_id, type, value, confidence) VALUES (?, ?, ?, ?)'
+    );
+
+    const insertMany = this.db.transaction(labels => {
+      for (const label of labels) {
+        insert.run(label.song_id, label.type, label.value, label.confidence);
+      }
+    });
+
+    insertMany(labels);
+  }
+
+  getRejectedLabelSummary(): { type: string; value: string; count: number; last_seen: string }[] {
+    const stmt = this.db.prepare(`
+      SELECT type, value, COUNT(*) as count, MAX(created_at) as last_seen
+      FROM rejected_labels
+      GROUP BY type, value
+      ORDER BY count DESC, type, value
+    `);
+    return stmt.all() as { type: string; value: string; count: number; last_seen: string }[];
+  }
+
+  clearRejectedLabels(): number {
+    return this.db.prepare('DELETE FROM rejected_labels').run().changes;
+  }
+
   // ========== PLAYLIST OPERATIONS ==========
 
   insertPlaylist(playlist: Omit<Playlist, 'created_at' | 'updated_at'>): void {
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO playlists (id, name, youtube_playlist_id, category_type, category_value)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO playlists (id, name, youtube_playlist_id, category_type, category_value, description, shape)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       playlist.id,
       playlist.name,
       playlist.youtube_playlist_id,
       playlist.category_type,
-      playlist.category_value
+      playlist.category_value,
+      playlist.description,
+      playlist.shape
     );
   }
 
@@ -211,6 +586,26 @@ export class DatabaseService {
     return stmt.all() as Playlist[];
   }
 
+  // Change what a playlist is built from, e.g. turn an AI playlist into a smart playlist
+  updatePlaylistDefinition(
+    id: string,
+    definition: Pick<Playlist, 'category_type' | 'category_value' | 'description'>
+  ): void {
+    const stmt = this.db.prepare(`
+      UPDATE playlists
+      SET category_type = ?, category_value = ?, description = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    stmt.run(definition.category_type, definition.category_value, definition.description, id);
+  }
+
+  setPlaylistShape(id: string, shape: PlaylistShape | null): void {
+    const stmt = this.db.prepare(
+      'UPDATE playlists SET shape = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    );
+    stmt.run(shape, id);
+  }
+
   updatePlaylistYouTubeId(id: string, youtubePlaylistId: string): void {
     const stmt = this.db.prepare(`
       UPDATE playlists 
@@ -228,12 +623,112 @@ export class DatabaseService {
     stmt.run(playlistId, songId);
   }
 
+  // Replace a playlist's songs, keeping push state for songs that stay
+  setPlaylistSongs(playlistId: string, songIds: string[]): void {
+    const keep = new Set(songIds);
+    const existing = this.db
+      .prepare('SELECT song_id FROM playlist_songs WHERE playlist_id = ?')
+      .all(playlistId) as { song_id: string }[];
+    const remove = this.db.prepare(
+      'DELETE FROM playlist_songs WHERE playlist_id = ? AND song_id = ?'
+    );
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO playlist_songs (playlist_id, song_id)
+      VALUES (?, ?)
+    `);
+
+    const replaceAll = this.db.transaction(() => {
+      for (const row of existing) {
+        if (!keep.has(row.song_id)) {
+          remove.run(playlistId, row.song_id);
+        }
+      }
+      for (const songId of songIds) {
+        insert.run(playlistId, songId);
+      }
+    });
+
+    replaceAll();
+  }
+
+  // Store the track order; songs not listed sort after the ordered ones
+  setPlaylistOrder(playlistId: string, songIds: string[]): void {
+    const clear = this.db.prepare(
+      'UPDATE playlist_songs SET position = NULL WHERE playlist_id = ?'
+    );
+    const update = this.db.prepare(
+      'UPDATE playlist_songs SET position = ? WHERE playlist_id = ? AND song_id = ?'
+    );
+
+    const updateAll = this.db.transaction(() => {
+      clear.run(playlistId);
+      songIds.forEach((songId, position) => update.run(position, playlistId, songId));
+    });
+
+    updateAll();
+  }
+
+  markPlaylistSongPushed(playlistId: string, songId: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE playlist_songs
+      SET pushed_at = CURRENT_TIMESTAMP
+      WHERE playlist_id = ? AND song_id = ?
+    `);
+    stmt.run(playlistId, songId);
+  }
+
+  // Align the push journal with what is actually on YouTube
+  setPlaylistPushState(playlistId: string, pushedSongIds: string[]): void {
+    const unmark = this.db.prepare(
+      'UPDATE playlist_songs SET pushed_at = NULL WHERE playlist_id = ? AND song_id = ?'
+    );
+    const mark = this.db.prepare(`
+      UPDATE playlist_songs
+      SET pushed_at = COALESCE(pushed_at, CURRENT_TIMESTAMP)
+      WHERE playlist_id = ? AND song_id = ?
+    `);
+    const pushed = new Set(pushedSongIds);
+    const songIds = this.db
+      .prepare('SELECT song_id FROM playlist_songs WHERE playlist_id = ?')
+      .all(playlistId) as { song_id: string }[];
+
+    const updateAll = this.db.transaction(() => {
+      for (const { song_id } of songIds) {
+        (pushed.has(song_id) ? mark : unmark).run(playlistId, song_id);
+      }
+    });
+
+    updateAll();
+  }
+
+  getPlaylistPushProgress(playlistId: string): { total: number; pushed: number } {
+    const result = this.db
+      .prepare(
+        `SELECT COUNT(*) as total, COUNT(ps.pushed_at) as pushed
+         FROM playlist_songs ps
+         JOIN songs s ON s.id = ps.song_id
+         WHERE ps.playlist_id = ?`
+      )
+      .get(playlistId) as { total: number; pushed: number };
+    return result;
+  }
+
   getPlaylistSongs(playlistId: string): Song[] {
     const stmt = this.db.prepare(`
       SELECT s.* FROM songs s
       JOIN playlist_songs ps ON s.id = ps.song_id
       WHERE ps.playlist_id = ?
-      ORDER BY ps.added_at DESC
+      ORDER BY ps.position IS NULL, ps.position, ps.added_at DESC
+    `);
+    return stmt.all(playlistId) as Song[];
+  }
+
+  getUnpushedPlaylistSongs(playlistId: string): Song[] {
+    const stmt = this.db.prepare(`
+      SELECT s.* FROM songs s
+      JOIN playlist_songs ps ON s.id = ps.song_id
+      WHERE ps.playlist_id = ? AND ps.pushed_at IS NULL
+      ORDER BY ps.position IS NULL, ps.position, ps.added_at DESC
     `);
     return stmt.all(playlistId) as Song[];
   }
@@ -250,6 +745,101 @@ export class DatabaseService {
     stmt.run(playlistId);
   }
 
+  // ========== QUOTA OPERATIONS ==========
+
+  recordQuotaUsage(day: string, method: string, units: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO quota_usage (day, method, units)
+      VALUES (?, ?, ?)
+    `);
+    stmt.run(day, method, units);
+  }
+
+  getQuotaUsedOn(day: string): number {
+    const result = this.db
+      .prepare('SELECT COALESCE(SUM(units), 0) as units FROM quota_usage WHERE day = ?')
+      .get(day) as { units: number };
+    return result.units;
+  }
+
+  getQuotaBreakdown(day: string): QuotaUsage[] {
+    const stmt = this.db.prepare(`
+      SELECT method, COUNT(*) as calls, SUM(units) as units
+      FROM quota_usage
+      WHERE day = ?
+      GROUP BY method
+      ORDER BY units DESC
+    `);
+    return stmt.all(day) as QuotaUsage[];
+  }
+
+  // ========== SYNC HISTORY OPERATIONS ==========
+
+  startSyncRun(source: Pick<Source, 'id' | 'name'>): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO sync_runs (source_id, source_name)
+      VALUES (?, ?)
+    `);
+    return stmt.run(source.id, source.name).lastInsertRowid as number;
+  }
+
+  finishSyncRun(
+    runId: number,
+    result: { fetched: number; filtered: number; added: SongRef[]; removed: SongRef[] }
+  ): void {
+    const update = this.db.prepare(`
+      UPDATE sync_runs
+      SET finished_at = CURRENT_TIMESTAMP, fetched = ?, filtered = ?, added = ?, removed = ?
+      WHERE id = ?
+    `);
+    const insertChange = this.db.prepare(`
+      INSERT INTO sync_run_changes (run_id, song_id, title, artist, change)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const finish = this.db.transaction(() => {
+      update.run(
+        result.fetched,
+        result.filtered,
+        result.added.length,
+        result.removed.length,
+        runId
+      );
+      for (const song of result.added) {
+        insertChange.run(runId, song.id, song.title, song.artist, 'added');
+      }
+      for (const song of result.removed) {
+        insertChange.run(runId, song.id, song.title, song.artist, 'removed');
+      }
+    });
+
+    finish();
+  }
+
+  failSyncRun(runId: number, error: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE sync_runs SET finished_at = CURRENT_TIMESTAMP, error = ? WHERE id = ?
+    `);
+    stmt.run(error, runId);
+  }
+
+  getRecentSyncRuns(limit: number): SyncRun[] {
+    const stmt = this.db.prepare('SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?');
+    return stmt.all(limit) as SyncRun[];
+  }
+
+  getSyncRunById(id: number): SyncRun | null {
+    const stmt = this.db.prepare('SELECT * FROM sync_runs WHERE id = ?');
+    return stmt.get(id) as SyncRun | null;
+  }
+
+  getSyncRunChanges(runId: number): SyncRunChange[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sync_run_changes WHERE run_id = ? ORDER BY change, title
+    `);
+    return stmt.all(runId) as SyncRunChange[];
+  }
+
   // ========== UTILITY ==========
 
   close(): void {
@@ -260,8 +850,14 @@ export class DatabaseService {
     // Delete all songs, categories, playlists, and playlist_songs but keep sources
     this.db.exec('DELETE FROM playlist_songs');
     this.db.exec('DELETE FROM categories');
+    this.db.exec('DELETE FROM song_analysis');
+    this.db.exec('DELETE FROM rejected_labels');
+    this.db.exec('DELETE FROM analysis_cache');
     this.db.exec('DELETE FROM playlists');
+    this.db.exec('DELETE FROM song_sources');
     this.db.exec('DELETE FROM songs');
+    this.db.exec('DELETE FROM sync_run_changes');
+    this.db.exec('DELETE FROM sync_runs');
     // Reset last_synced for all sources
     this.db.exec('UPDATE sources SET last_synced = NULL');
   }
@@ -9,7 +9,7 @@ CREATE TABLE IF NOT EXISTS sources (
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
--- Songs table
+-- Songs table (source_id is the source that first introduced the song; see song_sources)
 CREATE TABLE IF NOT EXISTS songs (
   id TEXT PRIMARY KEY,
   title TEXT NOT NULL,
@@ -20,6 +20,16 @@ CREATE TABLE IF NOT EXISTS songs (
   FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE SET NULL
 );
 
+-- Source membership (many-to-many: a song can be in Liked and several playlists)
+CREATE TABLE IF NOT EXISTS song_sources (
+  song_id TEXT NOT NULL,
+  source_id INTEGER NOT NULL,
+  added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (song_id, source_id),
+  FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE,
+  FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE
+);
+
 -- Categories table (many-to-many: one song can have multiple categories)
 CREATE TABLE IF NOT EXISTS categories (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -27,10 +37,22 @@ CREATE TABLE IF NOT EXISTS categories (
   type TEXT NOT NULL,
   value TEXT NOT NULL,
   confidence REAL DEFAULT 1.0,
+  origin TEXT NOT NULL DEFAULT 'ai',
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
 );
 
+-- Analysis state (which category types each song has been analyzed for, and how)
+CREATE TABLE IF NOT EXISTS song_analysis (
+  song_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version INTEGER NOT NULL,
+  analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (song_id, type),
+  FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
+);
+
 -- Playlists table
 CREATE TABLE IF NOT EXISTS playlists (
   id TEXT PRIMARY KEY,
@@ -38,6 +60,8 @@ CREATE TABLE IF NOT EXISTS playlists (
   youtube_playlist_id TEXT,
   category_type TEXT NOT NULL,
   category_value TEXT NOT NULL,
+  description TEXT,
+  shape TEXT,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -47,16 +71,144 @@ CREATE TABLE IF NOT EXISTS playlist_songs (
   playlist_id TEXT NOT NULL,
   song_id TEXT NOT NULL,
   added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  pushed_at DATETIME,
+  position INTEGER,
   PRIMARY KEY (playlist_id, song_id),
   FOREIGN KEY (playlist_id) REFERENCES playlists(id) ON DELETE CASCADE,
   FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
 );
 
+-- YouTube API quota ledger (units spent per call, bucketed by Pacific-time day)
+CREATE TABLE IF NOT EXISTS quota_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  day TEXT NOT NULL,
+  method TEXT NOT NULL,
+  units INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Sync history (one run per source synced)
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_id INTEGER,
+  source_name TEXT NOT NULL,
+  started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  finished_at DATETIME,
+  fetched INTEGER DEFAULT 0,
+  filtered INTEGER DEFAULT 0,
+  added INTEGER DEFAULT 0,
+  removed INTEGER DEFAULT 0,
+  error TEXT
+);
+
+-- Songs added or removed by a sync run (titles kept since removed songs are deleted)
+CREATE TABLE IF NOT EXISTS sync_run_changes (
+  run_id INTEGER NOT NULL,
+  song_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  artist TEXT,
+  change TEXT NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES sync_runs(id) ON DELETE CASCADE
+);
+
+-- Labels the AI returned outside the taxonomy vocabulary, kept for inspection
+CREATE TABLE IF NOT EXISTS rejected_labels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  song_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  confidence REAL DEFAULT 1.0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
+);
+
+-- Analysis results per normalized title/artist, reused for other uploads of the same track
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  match_key TEXT NOT NULL,
+  type TEXT NOT NULL,
+  labels TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version INTEGER NOT NULL,
+  cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (match_key, type)
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_songs_source_id ON songs(source_id);
+CREATE INDEX IF NOT EXISTS idx_song_sources_source_id ON song_sources(source_id);
 CREATE INDEX IF NOT EXISTS idx_categories_song_id ON categories(song_id);
 CREATE INDEX IF NOT EXISTS idx_categories_type_value ON categories(type, value);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_unique ON categories(song_id, type, value, origin);
 CREATE INDEX IF NOT EXISTS idx_songs_ai_processed ON songs(ai_processed);
 CREATE INDEX IF NOT EXISTS idx_playlist_songs_playlist_id ON playlist_songs(playlist_id);
 CREATE INDEX IF NOT EXISTS idx_playlist_songs_song_id ON playlist_songs(song_id);
+CREATE INDEX IF NOT EXISTS idx_quota_usage_day ON quota_usage(day);
+CREATE INDEX IF NOT EXISTS idx_sync_run_changes_run_id ON sync_run_changes(run_id);
+CREATE INDEX IF NOT EXISTS idx_rejected_labels_type_value ON rejected_labels(type, value);
 `;
+
+// Upgrades for databases created before a schema change. MIGRATIONS[i] moves a database
+// from user_version i to i + 1; fresh databases get SCHEMA and start at the latest version.
+export const MIGRATIONS: string[] = [
+  // 1: per-song push journal. Playlists pushed before it existed count as fully pushed; the
+  // next push reconciles them with YouTube
+  `ALTER TABLE playlist_songs ADD COLUMN pushed_at DATETIME;
+  UPDATE playlist_songs SET pushed_at = CURRENT_TIMESTAMP
+  WHERE playlist_id IN (SELECT id FROM playlists WHERE youtube_playlist_id IS NOT NULL);`,
+  // 2: song <-> source membership, seeded from the single songs.source_id column
+  `CREATE TABLE IF NOT EXISTS song_sources (
+    song_id TEXT NOT NULL,
+    source_id INTEGER NOT NULL,
+    added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (song_id, source_id),
+    FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE,
+    FOREIGN KEY (source_id) REFERENCES sources(id) ON DELETE CASCADE
+  );
+  INSERT OR IGNORE INTO song_sources (song_id, source_id, added_at)
+  SELECT id, source_id, added_at FROM songs
+  WHERE source_id IN (SELECT id FROM sources);`,
+  // 3: per-type analysis state, seeded from the types each processed song has labels for
+  `CREATE TABLE IF NOT EXISTS song_analysis (
+    song_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_version INTEGER NOT NULL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (song_id, type),
+    FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
+  );
+  INSERT OR IGNORE INTO song_analysis (song_id, type, model, prompt_version)
+  SELECT DISTINCT c.song_id, c.type, 'gemini-2.5-flash', 1
+  FROM categories c JOIN songs s ON s.id = c.song_id
+  WHERE s.ai_processed = 1;`,
+  // 4: category origin, with duplicates from earlier re-runs collapsed before the unique index
+  `ALTER TABLE categories ADD COLUMN origin TEXT NOT NULL DEFAULT 'ai';
+  DELETE FROM categories WHERE id NOT IN (
+    SELECT MAX(id) FROM categories GROUP BY song_id, type, value, origin
+  );`,
+  // 5: rejected AI labels
+  `CREATE TABLE IF NOT EXISTS rejected_labels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    song_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    value TEXT NOT NULL,
+    confidence REAL DEFAULT 1.0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (song_id) REFERENCES songs(id) ON DELETE CASCADE
+  );`,
+  // 6: analysis cache keyed by normalized title/artist
+  `CREATE TABLE IF NOT EXISTS analysis_cache (
+    match_key TEXT NOT NULL,
+    type TEXT NOT NULL,
+    labels TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_version INTEGER NOT NULL,
+    cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (match_key, type)
+  );`,
+  // 7: playlist descriptions
+  `ALTER TABLE playlists ADD COLUMN description TEXT;`,
+  // 8: track order, and the energy curve it was built from
+  `ALTER TABLE playlists ADD COLUMN shape TEXT;
+  ALTER TABLE playlist_songs ADD COLUMN position INTEGER;`,
+];
@@ -6,6 +6,7 @@ import fs from 'fs';
 import inquirer from 'inquirer';
 import { checkRuntime } from './utils/check-runtime';
 import { AppPaths } from './utils/paths';
+import { getProviderConfig, getTaxonomy, loadConfig } from './utils/config';
 import { logger } from './utils/logger';
 import { getDatabase } from './db';
 import { authenticateYouTube } from './cli/auth';
@@ -13,30 +14,26 @@ import { handleSourcesCommand } from './cli/sources';
 import { handleAnalyzeCommand } from './cli/analyze';
 import { handleCreateCommand } from './cli/create';
 import { handlePushCommand } from './cli/push';
-import { SyncService } from './services/sync';
+import { handleSyncCommand } from './cli/sync';
+import { handleQuotaCommand } from './cli/quota';
+import { handleHistoryCommand } from './cli/history';
+import { handleCategoriesCommand } from './cli/categories';
+import { handleTagCommand, handleTagsCommand, handleUntagCommand } from './cli/tags';
+import { handlePlaylistsCommand } from './cli/playlists';
+import { QuotaService } from './services/quota';
+import { findCommand, HELP_FLAG, printCommandHelp, printCommandList } from './cli/commands';
+import { ANALYSIS, EXIT_CODES } from './utils/constants';
+import { exitCodeFor, UsageError } from './utils/errors';
+import { parseArgs, tokenize, type ParsedArgs } from './utils/args';
 
 checkRuntime();
 dotenv.config();
 
-const commands = {
-  auth: 'Switch YouTube Music account',
-  sources: 'Manage sources (discover, add <url>, remove <id>, list)',
-  sync: 'Fetch songs from sources (sync or sync --source=<id>)',
-  analyze: 'Categorize songs with AI (analyze or analyze --type=mood|genre|energy)',
-  create: 'Create AI-suggested playlists from categories',
-  push: 'Push local playlists to YouTube Music',
-  playlists: 'playlists list, playlists clear',
-  status: 'Show library stats',
-  reset: 'Clear all data (keeps sources)',
-  info: 'Show app info',
-  clear: 'Clear screen',
-  exit: 'Exit djemini',
-} as const;
-
-type Command = keyof typeof commands;
-
 let currentLoggedInUser: string | null = null;
 
+// False when running a single command from argv (no REPL, no raw mode)
+let interactive = false;
+
 const ASCII_ART = `
 ██████╗      ██╗███████╗███╗   ███╗██╗███╗   ██╗██╗
 ██╔══██╗     ██║██╔════╝████╗ ████║██║████╗  ██║██║
@@ -68,7 +65,9 @@ async function getCurrentUser(): Promise<string | null> {
     if (!auth.loadToken()) return null;
 
     const youtube = auth.getYouTubeService();
-    const { data } = await youtube.channels.list({ part: ['snippet'], mine: true });
+    const { data } = await new QuotaService().track('channels.list', () =>
+      youtube.channels.list({ part: ['snippet'], mine: true })
+    );
     return data.items?.[0]?.snippet?.title || null;
   } catch {
     return null;
@@ -87,21 +86,79 @@ function showWelcome(accountName?: string | null): void {
   }
 
   logger.log('');
-  logger.log(chalk.cyan('Commands:'));
-  Object.entries(commands).forEach(([cmd, desc]) => {
-    logger.log(`  ${chalk.yellow(cmd.padEnd(12))} ${chalk.dim(desc)}`);
-  });
+  printCommandList();
   logger.log('');
 }
 
+// Temporarily disable keypress and raw mode so inquirer can own stdin
+function pauseRepl(): void {
+  if (!interactive) return;
+  (global as any).pauseKeypress?.();
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(false);
+  }
+}
+
+// Re-enable keypress and raw mode
+function resumeRepl(): void {
+  if (!interactive) return;
+  process.stdin.resume();
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+  }
+  (global as any).resumeKeypress?.();
+}
+
+function reportUsageError(error: unknown, cmd?: string): void {
+  if (!(error instanceof UsageError)) throw error;
+  logger.log('');
+  logger.error(error.message);
+  logger.dim(cmd ? `Run "${cmd} --help" for usage` : 'Type help to see available commands');
+  logger.log('');
+  process.exitCode = error.exitCode;
+}
+
 async function handleCommand(input: string): Promise<boolean> {
   // Remove leading slash if present and parse command + args
-  const trimmed = input.trim().toLowerCase().replace(/^\//, '');
-  const parts = trimmed.split(/\s+/);
-  const cmd = parts[0];
-  const args = parts.slice(1);
+  let tokens: string[];
+  try {
+    tokens = tokenize(input.trim().replace(/^\//, ''));
+  } catch (error) {
+    reportUsageError(error);
+    return false;
+  }
+
+  const [cmd = '', ...argv] = tokens;
+  return runCommand(cmd, argv);
+}
 
-  switch (cmd) {
+async function runCommand(name: string, argv: string[]): Promise<boolean> {
+  if (!name) return false;
+
+  const definition = findCommand(name);
+  if (!definition) {
+    logger.log('');
+    logger.error(`Unknown command: ${name}`);
+    logger.dim('Type help to see available commands');
+    logger.log('');
+    process.exitCode = EXIT_CODES.USAGE;
+    return false;
+  }
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv, [...(definition.flags ?? []), HELP_FLAG]);
+  } catch (error) {
+    reportUsageError(error, definition.name);
+    return false;
+  }
+
+  if (args.flags.help) {
+    printCommandHelp(definition);
+    return false;
+  }
+
+  switch (definition.name) {
     case 'auth':
       logger.log('');
       logger.info('Switching YouTube Music account...');
@@ -114,199 +171,109 @@ async function handleCommand(input: string): Promise<boolean> {
           require('fs').unlinkSync(tokenPath);
         }
 
-        await authenticateYouTube();
+        if (!(await authenticateYouTube())) {
+          process.exitCode = EXIT_CODES.AUTH_REQUIRED;
+        }
         logger.log('');
       } catch (error) {
         logger.log('');
         logger.error('Account switch failed');
         logger.log('');
+        process.exitCode = exitCodeFor(error);
       }
       break;
 
     case 'sources':
-      // Temporarily disable keypress and raw mode for inquirer
-      (global as any).pauseKeypress?.();
-      if (process.stdin.isTTY) {
-        process.stdin.setRawMode(false);
-      }
+      pauseRepl();
 
       await handleSourcesCommand(args);
 
-      // Re-enable keypress and raw mode
-      process.stdin.resume();
-      if (process.stdin.isTTY) {
-        process.stdin.setRawMode(true);
-      }
-      (global as any).resumeKeypress?.();
+      resumeRepl();
       break;
 
     case 'sync':
-      logger.log('');
-      try {
-        const db = getDatabase();
-        const syncService = new SyncService();
-
-        // Check if --source flag is provided
-        const sourceArg = args.find(arg => arg.startsWith('--source='));
-
-        if (sourceArg) {
-          const parts = sourceArg.split('=');
-          if (parts[1]) {
-            const sourceId = parseInt(parts[1]);
-            if (isNaN(sourceId)) {
-              logger.error('Invalid source ID');
-              logger.log('');
-              break;
-            }
-            await syncService.syncSource(sourceId);
-          } else {
-            logger.error('Invalid source ID');
-            logger.log('');
-            break;
-          }
-        } else {
-          // Sync all sources
-          const sources = db.getAllSources();
-          if (sources.length === 0) {
-            logger.warn('No sources found');
-            logger.dim('Add sources with: sources add liked');
-            logger.log('');
-            break;
-          }
-
-          for (const source of sources) {
-            await syncService.syncSource(source.id);
-          }
-        }
-      } catch (error) {
-        if (error instanceof Error) {
-          logger.error(error.message);
-        } else {
-          logger.error('Sync failed');
-        }
-      }
-      logger.log('');
+      await handleSyncCommand(args);
+      break;
+
+    case 'history':
+      handleHistoryCommand(args);
       break;
 
     case 'analyze':
       await handleAnalyzeCommand(args);
       break;
 
+    case 'categories':
+      handleCategoriesCommand(args);
+      break;
+
+    case 'tag':
+      handleTagCommand(args);
+      break;
+
+    case 'untag':
+      handleUntagCommand(args);
+      break;
+
+    case 'tags':
+      handleTagsCommand(args);
+      break;
+
     case 'create':
+      pauseRepl();
+
       await handleCreateCommand(args);
+
+      resumeRepl();
       break;
 
     case 'push':
       await handlePushCommand(args);
       break;
 
+    case 'quota':
+      handleQuotaCommand(args);
+      break;
+
     case 'playlists':
-      {
-        const subCmd = args[0];
-        const db = getDatabase();
+      pauseRepl();
 
-        if (subCmd === 'clear') {
-          logger.log('');
-          logger.warn('⚠️  This will delete all local playlists.');
-          logger.dim(
-            'Songs and categories will be kept. You can recreate playlists with "create".'
-          );
-          logger.log('');
+      await handlePlaylistsCommand(args);
 
-          // Temporarily disable keypress and raw mode for inquirer
-          (global as any).pauseKeypress?.();
-          if (process.stdin.isTTY) {
-            process.stdin.setRawMode(false);
-          }
-
-          try {
-            const { confirmed } = await inquirer.prompt([
-              {
-                type: 'confirm',
-                name: 'confirmed',
-                message: 'Clear all playlists?',
-                default: false,
-              },
-            ]);
-
-            if (confirmed) {
-              db.clearPlaylists();
-              logger.log('');
-              logger.success('✓ Playlists cleared');
-              logger.log('');
-            } else {
-              logger.log('');
-              logger.info('Cancelled');
-              logger.log('');
-            }
-          } catch (error) {
-            logger.log('');
-            logger.error('Cancelled');
-            logger.log('');
-          }
-
-          // Re-enable keypress and raw mode
-          process.stdin.resume();
-          if (process.stdin.isTTY) {
-            process.stdin.setRawMode(true);
-          }
-          (global as any).resumeKeypress?.();
-        } else {
-          // List playlists
-          const playlists = db.getAllPlaylists();
-
-          if (playlists.length === 0) {
-            logger.log('');
-            logger.dim('No playlists found.');
-            logger.dim('Run "create" to generate playlists from your categories.');
-            logger.log('');
-          } else {
-            logger.log('');
-            logger.log(chalk.cyan(`Playlists (${playlists.length}):`));
-            logger.log('');
-
-            for (const playlist of playlists) {
-              const songs = db.getPlaylistSongs(playlist.id);
-              const pushed = playlist.youtube_playlist_id ? '✓' : '○';
-              logger.log(
-                `  ${pushed} ${chalk.white(playlist.name)} ${chalk.dim(`(${songs.length} songs)`)}`
-              );
-              if (playlist.youtube_playlist_id) {
-                logger.dim(
-                  `    https://music.youtube.com/playlist?list=${playlist.youtube_playlist_id}`
-                );
-              }
-            }
-            logger.log('');
-            logger.dim('✓ = pushed to YouTube Music, ○ = local only');
-            logger.log('');
-          }
-        }
-      }
+      resumeRepl();
       break;
 
     case 'status':
       logger.log('');
       const db = getDatabase();
       const songCount = db.getSongCount();
-      const processedCount = db.getProcessedSongCount();
       const sources = db.getAllSources();
+      const provider = getProviderConfig();
+      const coverage = db.getAnalysisCoverage(provider.model, ANALYSIS.PROMPT_VERSION);
 
       logger.log(chalk.bold.magenta('djemini Status'));
       logger.log('');
       logger.log(chalk.gray('Sources:        ') + chalk.white(sources.length));
       logger.log(chalk.gray('Total songs:    ') + chalk.white(songCount));
-      logger.log(chalk.gray('Categorized:    ') + chalk.white(processedCount));
-      logger.log(chalk.gray('Pending:        ') + chalk.white(songCount - processedCount));
+      logger.log(
+        chalk.gray('AI provider:    ') + chalk.white(`${provider.type} (${provider.model})`)
+      );
+      logger.log('');
+      logger.log(chalk.cyan('Analysis coverage:'));
+      for (const { name: type } of getTaxonomy()) {
+        const row = coverage.find(c => c.type === type);
+        const analyzed = row?.analyzed ?? 0;
+        const outdated = analyzed - (row?.current ?? 0);
+        logger.log(
+          `  ${chalk.gray(type.padEnd(14))}${chalk.white(`${analyzed}/${songCount}`)}` +
+            (outdated > 0 ? chalk.dim(` (${outdated} from an older model or prompt)`) : '')
+        );
+      }
       logger.log('');
       break;
 
     case 'reset':
-      // Temporarily disable keypress and raw mode for inquirer
-      (global as any).pauseKeypress?.();
-      if (process.stdin.isTTY) {
-        process.stdin.setRawMode(false);
-      }
+      pauseRepl();
 
       logger.log('');
       logger.warn('⚠️  This will delete all songs, categories, and playlists.');
@@ -341,12 +308,7 @@ async function handleCommand(input: string): Promise<boolean> {
         logger.log('');
       }
 
-      // Re-enable keypress and raw mode
-      process.stdin.resume();
-      if (process.stdin.isTTY) {
-        process.stdin.setRawMode(true);
-      }
-      (global as any).resumeKeypress?.();
+      resumeRepl();
       break;
 
     case 'info':
@@ -355,9 +317,34 @@ async function handleCommand(input: string): Promise<boolean> {
       logger.log(chalk.gray('Data:     ') + chalk.white(AppPaths.getDataDir()));
       logger.log(chalk.gray('Token:    ') + chalk.white(AppPaths.getTokenPath()));
       logger.log(chalk.gray('Database: ') + chalk.white(AppPaths.getDbPath()));
+      logger.log(
+        chalk.gray('Config:   ') +
+          chalk.white(AppPaths.getConfigPath()) +
+          (fs.existsSync(AppPaths.getConfigPath()) ? '' : chalk.dim(' (not found, using defaults)'))
+      );
       logger.log('');
       break;
 
+    case 'help': {
+      const topic = args.positionals[0];
+      const command = topic ? findCommand(topic) : undefined;
+      if (topic && !command) {
+        logger.log('');
+        logger.error(`Unknown command: ${topic}`);
+        logger.log('');
+        process.exitCode = EXIT_CODES.USAGE;
+      } else if (command) {
+        printCommandHelp(command);
+      } else {
+        logger.log('');
+        printCommandList();
+        logger.log('');
+        logger.dim('Run "<command> --help" for details on a command');
+        logger.log('');
+      }
+      break;
+    }
+
     case 'clear':
       console.clear();
       showWelcome();
@@ -369,16 +356,6 @@ async function handleCommand(input: string): Promise<boolean> {
       logger.log(chalk.dim('Until next time...'));
       logger.log('');
       return true;
-
-    case '':
-      break;
-
-    default:
-      logger.log('');
-      logger.error(`Unknown command: ${input}`);
-      logger.dim('Type clear to see available commands');
-      logger.log('');
-      break;
   }
 
   return false;
@@ -390,7 +367,18 @@ async function checkAuth(): Promise<boolean> {
   return auth.loadToken();
 }
 
+// One-shot mode: `djemini sync --source=3` runs a single command and exits with its status
+async function runOnce(argv: string[]): Promise<void> {
+  loadConfig();
+  const [cmd = '', ...args] = argv;
+  await runCommand(cmd.replace(/^\//, ''), args);
+  process.exit(process.exitCode ?? EXIT_CODES.SUCCESS);
+}
+
 async function main(): Promise<void> {
+  interactive = true;
+  loadConfig(); // Fail fast on a broken config file rather than mid-command
+
   // Show splash screen for 1.5 seconds
   await showSplash();
 
@@ -575,7 +563,9 @@ async function main(): Promise<void> {
   };
 }
 
-main().catch((error: Error) => {
+const argv = process.argv.slice(2);
+
+(argv.length > 0 ? runOnce(argv) : main()).catch((error: Error) => {
   logger.error(`Fatal error: ${error.message}`);
-  process.exit(1);
+  process.exit(exitCodeFor(error));
 });
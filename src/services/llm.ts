@@ -0,0 +1,497 @@
+import { logger } from '../utils/logger';
+import { AIResponseError } from '../utils/errors';
+import { normalizeLabel } from '../utils/vocabulary';
+import type { Song, SongRef, TaxonomyDimension } from '../types';
+
+export interface LabelScore {
+  value: string;
+  confidence: number; // 0-1, as reported by the model
+}
+
+export interface SongAnalysis {
+  song_id: string;
+  labels: Record<string, LabelScore[]>; // Keyed by dimension name; single-value dimensions hold at most one
+  rejected: Array<LabelScore & { type: string }>; // Labels outside the vocabulary, as returned
+}
+
+export interface AnalysisFailure {
+  song_id: string;
+  reason: string;
+}
+
+// Songs missing from `analyses` are listed in `failures`
+export interface AnalysisResult {
+  analyses: SongAnalysis[];
+  failures: AnalysisFailure[];
+}
+
+export interface PlaylistSuggestion {
+  name: string;
+  description: string;
+  filters: Record<string, string[]>; // Dimension name -> accepted values
+}
+
+// A library song as shown to the model when curating from a request
+export interface LibrarySong extends SongRef {
+  labels: Record<string, string[]>; // Dimension name -> values
+}
+
+// Which slice of the library a curation call sees, when it is sent in several calls
+export interface LibraryPart {
+  index: number;
+  total: number;
+}
+
+export interface PlaylistCuration {
+  name: string;
+  description: string;
+  song_ids: string[]; // As returned; the caller checks them against the library
+}
+
+// Implemented by every backend that can categorize songs and suggest playlists
+export interface LLMProvider {
+  readonly model: string; // Recorded with each analysis so outdated labels can be found
+
+  analyzeSongs(songs: Song[], dimensions: TaxonomyDimension[]): Promise<AnalysisResult>;
+
+  // `available` maps each dimension name to the values present in the library
+  suggestPlaylists(available: Record<string, string[]>): Promise<PlaylistSuggestion[]>;
+
+  // Pick the songs that fit a free-text request such as "rainy sunday morning coffee"
+  curatePlaylist(
+    request: string,
+    songs: LibrarySong[],
+    part: LibraryPart
+  ): Promise<PlaylistCuration>;
+}
+
+// Prompts and parsers shared by the text-generation providers
+
+export function buildPlaylistPrompt(available: Record<string, string[]>): string {
+  return [
+    "You are a music curator. Based on the following categories found in a user's library,",
+    'suggest 5-10 logical playlists with simple, common names.',
+    '',
+    ...Object.entries(available).map(([name, values]) => `Available ${name}: ${values.join(', ')}`),
+    '',
+    'Create playlists that combine these attributes in meaningful ways.',
+    'Use simple, everyday names without buzzwords. Examples:',
+    '- "Workout" (high energy + hip-hop/electronic + energetic mood)',
+    '- "Late Night" (low energy + calm/melancholic + indie/r&b)',
+    '- "Study" (medium energy + calm + electronic/classical)',
+    '- "Party" (high energy + party mood + pop/dance)',
+    '- "Sleep" (low energy + calm)',
+    '- "Drive" (medium/high energy + various genres)',
+    '- "Chill" (low/medium energy + calm/relaxed)',
+    '',
+    'Keep names 1-2 words, simple and descriptive.',
+    'NO buzzwords like "bangers", "vibes", "mode", "flow", etc.',
+    '',
+    'Each playlist should:',
+    '1. Have a simple, common name (1-2 words max)',
+    '2. Have a brief description',
+    '3. Define filters using the available categories above, keyed by category name',
+    '',
+    'Return ONLY valid JSON, no markdown:',
+    '{',
+    '  "playlists": [',
+    '    {',
+    '      "name": "Workout",',
+    '      "description": "High-energy tracks for exercise",',
+    '      "filters": {',
+    '        "mood": ["energetic", "uplifting"],',
+    '        "genre": ["hip-hop", "electronic"],',
+    '        "energy": ["high"]',
+    '      }',
+    '    }',
+    '  ]',
+    '}',
+  ].join('\n');
+}
+
+// One line per song, e.g. `dQw4w9WgXcQ | "Title" by Artist | mood=happy genre=pop energy=high`
+export function formatLibrarySong(song: LibrarySong): string {
+  const labels = Object.entries(song.labels)
+    .map(([name, values]) => `${name}=${values.join(',')}`)
+    .join(' ');
+  return `${song.id} | "${song.title}" by ${song.artist || 'Unknown'}${labels ? ` | ${labels}` : ''}`;
+}
+
+export function buildCurationPrompt(
+  request: string,
+  songs: LibrarySong[],
+  part: LibraryPart
+): string {
+  return [
+    "You are a music curator. Build a playlist from the user's library for this request:",
+    `"${request}"`,
+    '',
+    part.total > 1
+      ? `The library is sent in ${part.total} parts; this is part ${part.index + 1}. Pick only from these songs.`
+      : 'Pick only from these songs.',
+    'Each line is: song ID | title and artist | labels',
+    '',
+    ...songs.map(formatLibrarySong),
+    '',
+    'Choose every song that fits the request well; leave out songs that only loosely fit.',
+    'Give the playlist a short, simple name and a one-sentence description.',
+    '',
+    'Return ONLY valid JSON, no markdown:',
+    '{',
+    '  "name": "Rainy Sunday",',
+    '  "description": "Soft, unhurried songs for a slow morning with coffee",',
+    `  "song_ids": ["${songs[0]?.id ?? 'dQw4w9WgXcQ'}"]`,
+    '}',
+  ].join('\n');
+}
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text across tokenizers
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Prompt line plus expected reply size for one song in an analysis request
+export function estimateSongTokens(song: Song, dimensions: TaxonomyDimension[]): number {
+  const line = estimateTokens(`100. "${song.title}" by ${song.artist || 'Unknown'}\n`);
+  const reply = dimensions.reduce(
+    (sum, dimension) => sum + (dimension.cardinality === 'single' ? 15 : 35),
+    10
+  );
+  return line + reply;
+}
+
+export function buildAnalysisPrompt(songs: Song[], dimensions: TaxonomyDimension[]): string {
+  const songList = songs
+    .map((s, idx) => `${idx + 1}. "${s.title}" by ${s.artist || 'Unknown'}`)
+    .join('\n');
+
+  const instructions = dimensions.map(dimension => {
+    const label = dimension.name.charAt(0).toUpperCase() + dimension.name.slice(1);
+    const cardinality = dimension.cardinality === 'single' ? 'single value' : 'can have multiple';
+    const description = dimension.description ? ` - ${dimension.description}` : '';
+    return `**${label}** (${cardinality})${description}: ${dimension.values.join(', ')}`;
+  });
+
+  const filters = dimensions.map(dimension => {
+    const example = `{ "value": "${dimension.values[0]}", "confidence": 0.8 }`;
+    return dimension.cardinality === 'single'
+      ? `"${dimension.name}": ${example}`
+      : `"${dimension.name}": [${example}]`;
+  });
+
+  return [
+    'Analyze the following songs and categorize them.',
+    'Return ONLY valid JSON, no markdown or explanations.',
+    '',
+    'Songs:',
+    songList,
+    '',
+    ...instructions,
+    '',
+    'Give every label a confidence between 0 and 1: how sure you are that it fits the song.',
+    'Use lower values when you are guessing from the title alone.',
+    '',
+    'Return format:',
+    '{',
+    '  "analyses": [',
+    '    {',
+    '      "song_id": 1,',
+    `      ${filters.join(',\n      ')}`,
+    '    }',
+    '  ]',
+    '}',
+  ].join('\n');
+}
+
+// Ask for an analysis, then re-ask once for just the songs whose items failed validation
+export async function analyzeWithRepair(
+  songs: Song[],
+  dimensions: TaxonomyDimension[],
+  generate: (prompt: string) => Promise<string>
+): Promise<AnalysisResult> {
+  const first = parseAnalysisResponse(
+    await generate(buildAnalysisPrompt(songs, dimensions)),
+    songs,
+    dimensions
+  );
+  if (first.failures.length === 0) return first;
+
+  const broken = songs.filter(song => first.failures.some(f => f.song_id === song.id));
+  logger.dim(`  Repairing ${broken.length} invalid items...`);
+
+  const problems = first.failures.map(failure => {
+    const index = broken.findIndex(song => song.id === failure.song_id);
+    return `- Song ${index + 1}: ${failure.reason}`;
+  });
+  const repairPrompt = [
+    buildAnalysisPrompt(broken, dimensions),
+    '',
+    'Your previous answer for these songs was invalid:',
+    ...problems,
+    'Return a corrected answer for every song above, following the format exactly.',
+  ].join('\n');
+
+  const repaired = parseAnalysisResponse(await generate(repairPrompt), broken, dimensions);
+  return {
+    analyses: [...first.analyses, ...repaired.analyses],
+    failures: repaired.failures,
+  };
+}
+
+// Ask for playlist suggestions, re-asking once if the reply is not usable
+export async function suggestWithRepair(
+  available: Record<string, string[]>,
+  generate: (prompt: string) => Promise<string>
+): Promise<PlaylistSuggestion[]> {
+  const prompt = buildPlaylistPrompt(available);
+  const response = await generate(prompt);
+
+  try {
+    return parsePlaylistResponse(response);
+  } catch (error: any) {
+    logger.dim(`Repairing playlist suggestions (${error.message})...`);
+    const repairPrompt = [
+      prompt,
+      '',
+      `Your previous answer was invalid: ${error.message}`,
+      'Return the corrected JSON only.',
+    ].join('\n');
+    const repaired = await generate(repairPrompt);
+
+    try {
+      return parsePlaylistResponse(repaired);
+    } catch (retryError: any) {
+      logger.error(`Failed to parse playlist suggestions: ${retryError.message}`);
+      logger.dim(`Response: ${repaired.substring(0, 200)}...`);
+      throw new AIResponseError();
+    }
+  }
+}
+
+// Ask for a curated playlist, re-asking once if the reply is not usable
+export async function curateWithRepair(
+  request: string,
+  songs: LibrarySong[],
+  part: LibraryPart,
+  generate: (prompt: string) => Promise<string>
+): Promise<PlaylistCuration> {
+  const prompt = buildCurationPrompt(request, songs, part);
+  const response = await generate(prompt);
+
+  try {
+    return parseCurationResponse(response);
+  } catch (error: any) {
+    logger.dim(`Repairing playlist (${error.message})...`);
+    const repairPrompt = [
+      prompt,
+      '',
+      `Your previous answer was invalid: ${error.message}`,
+      'Return the corrected JSON only.',
+    ].join('\n');
+    const repaired = await generate(repairPrompt);
+
+    try {
+      return parseCurationResponse(repaired);
+    } catch (retryError: any) {
+      logger.error(`Failed to parse playlist: ${retryError.message}`);
+      logger.dim(`Response: ${repaired.substring(0, 200)}...`);
+      throw new AIResponseError();
+    }
+  }
+}
+
+// Validate the reply item by item so one bad song does not sink the whole batch
+export function parseAnalysisResponse(
+  response: string,
+  songs: Song[],
+  dimensions: TaxonomyDimension[]
+): AnalysisResult {
+  const failAll = (reason: string): AnalysisResult => ({
+    analyses: [],
+    failures: songs.map(song => ({ song_id: song.id, reason })),
+  });
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripFences(response));
+  } catch (error: any) {
+    return failAll(`response is not valid JSON (${error.message})`);
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.analyses)) {
+    return failAll('response must be an object with an "analyses" list');
+  }
+
+  const items = new Map<number, any>();
+  const problems = new Map<number, string>();
+
+  for (const item of parsed.analyses) {
+    const index = isObject(item) && Number.isInteger(item.song_id) ? item.song_id - 1 : -1;
+    // Items that cannot be matched to a song are ignored; the song is reported as missing
+    if (index < 0 || index >= songs.length || items.has(index)) continue;
+
+    const problem = validateAnalysisItem(item, dimensions);
+    if (problem) {
+      problems.set(index, problem);
+    } else {
+      items.set(index, item);
+      problems.delete(index);
+    }
+  }
+
+  const result: AnalysisResult = { analyses: [], failures: [] };
+  songs.forEach((song, index) => {
+    const item = items.get(index);
+    if (item) {
+      result.analyses.push(toSongAnalysis(song, item, dimensions));
+    } else {
+      result.failures.push({
+        song_id: song.id,
+        reason: problems.get(index) ?? 'missing from response',
+      });
+    }
+  });
+
+  return result;
+}
+
+// Returns a description of the first problem, or null when the item is well-formed
+function validateAnalysisItem(item: any, dimensions: TaxonomyDimension[]): string | null {
+  const known = new Set(['song_id', ...dimensions.map(d => d.name)]);
+  const unknown = Object.keys(item).find(key => !known.has(key));
+  if (unknown) return `unknown field "${unknown}"`;
+
+  for (const dimension of dimensions) {
+    const raw = item[dimension.name];
+    if (raw == null) continue; // No confident label for this dimension
+
+    if (dimension.cardinality === 'multiple' && !Array.isArray(raw)) {
+      return `"${dimension.name}" must be a list`;
+    }
+
+    for (const label of Array.isArray(raw) ? raw : [raw]) {
+      if (!isObject(label) || typeof label.value !== 'string' || !label.value.trim()) {
+        return `"${dimension.name}" labels must be objects with a string "value"`;
+      }
+      if (typeof label.confidence !== 'number' || label.confidence < 0 || label.confidence > 1) {
+        return `"${dimension.name}" confidence must be a number between 0 and 1`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function toSongAnalysis(song: Song, item: any, dimensions: TaxonomyDimension[]): SongAnalysis {
+  const labels: Record<string, LabelScore[]> = {};
+  const rejected: SongAnalysis['rejected'] = [];
+
+  for (const dimension of dimensions) {
+    const raw = item[dimension.name];
+
+    // Map variants to canonical values, keeping the highest confidence per value
+    const scores = new Map<string, number>();
+    for (const label of Array.isArray(raw) ? raw : raw == null ? [] : [raw]) {
+      const score = { value: label.value.trim(), confidence: label.confidence };
+      const value = normalizeLabel(dimension, score.value);
+      if (value === null) {
+        rejected.push({ ...score, type: dimension.name });
+      } else if (score.confidence > (scores.get(value) ?? -1)) {
+        scores.set(value, score.confidence);
+      }
+    }
+
+    const ranked = [...scores]
+      .map(([value, confidence]) => ({ value, confidence }))
+      .sort((a, b) => b.confidence - a.confidence);
+    // Keep only the most confident label when the model over-answers
+    labels[dimension.name] = dimension.cardinality === 'single' ? ranked.slice(0, 1) : ranked;
+  }
+
+  return { song_id: song.id, labels, rejected };
+}
+
+// Throws with a description of the problem when the reply is unusable.
+// Individual malformed playlists are dropped rather than failing the reply.
+export function parsePlaylistResponse(response: string): PlaylistSuggestion[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripFences(response));
+  } catch (error: any) {
+    throw new AIResponseError(`response is not valid JSON (${error.message})`);
+  }
+  if (!isObject(parsed) || !Array.isArray(parsed.playlists)) {
+    throw new AIResponseError('response must be an object with a "playlists" list');
+  }
+
+  const suggestions: PlaylistSuggestion[] = [];
+  for (const playlist of parsed.playlists) {
+    if (!isObject(playlist) || typeof playlist.name !== 'string' || !playlist.name.trim()) {
+      continue;
+    }
+    suggestions.push({
+      name: playlist.name.trim(),
+      description: typeof playlist.description === 'string' ? playlist.description : '',
+      filters: toFilters(playlist.filters),
+    });
+  }
+
+  if (parsed.playlists.length > 0 && suggestions.length === 0) {
+    throw new AIResponseError('every playlist must have a string "name"');
+  }
+  return suggestions;
+}
+
+export function parseCurationResponse(response: string): PlaylistCuration {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripFences(response));
+  } catch (error: any) {
+    throw new AIResponseError(`response is not valid JSON (${error.message})`);
+  }
+  if (!isObject(parsed)) {
+    throw new AIResponseError('response must be an object');
+  }
+  if (typeof parsed.name !== 'string' || !parsed.name.trim()) {
+    throw new AIResponseError('"name" must be a non-empty string');
+  }
+  if (
+    !Array.isArray(parsed.song_ids) ||
+    parsed.song_ids.some((id: unknown) => typeof id !== 'string')
+  ) {
+    throw new AIResponseError('"song_ids" must be a list of song ID strings');
+  }
+
+  return {
+    name: parsed.name.trim(),
+    description: typeof parsed.description === 'string' ? parsed.description.trim() : '',
+    song_ids: [...new Set<string>(parsed.song_ids.map((id: string) => id.trim()))],
+  };
+}
+
+// Drops filters that are not a list of strings
+function toFilters(raw: unknown): Record<string, string[]> {
+  const filters: Record<string, string[]> = {};
+  if (!isObject(raw)) return filters;
+
+  for (const [name, values] of Object.entries(raw)) {
+    const list = (Array.isArray(values) ? values : [values]).filter(
+      (v): v is string => typeof v === 'string'
+    );
+    if (list.length > 0) filters[name] = list;
+  }
+
+  return filters;
+}
+
+// Remove markdown code blocks if present
+function stripFences(response: string): string {
+  const cleaned = response.trim();
+  return cleaned.startsWith('```')
+    ? cleaned.replace(/```json\n?/g, '').replace(/```\n?/g, '')
+    : cleaned;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,96 @@
+import { logger } from '../utils/logger';
+import { AIResponseError, HttpError, QuotaExceededError } from '../utils/errors';
+import { getScheduler } from './scheduler';
+import {
+  analyzeWithRepair,
+  curateWithRepair,
+  suggestWithRepair,
+  type AnalysisResult,
+  type LibraryPart,
+  type LibrarySong,
+  type LLMProvider,
+  type PlaylistCuration,
+  type PlaylistSuggestion,
+} from './llm';
+import type { Song, TaxonomyDimension } from '../types';
+
+const REQUEST_TIMEOUT_MS = 120000; // Local models can take a while on large batches
+
+// Any server exposing the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, vLLM...
+export class OpenAICompatibleService implements LLMProvider {
+  readonly model: string;
+
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async suggestPlaylists(available: Record<string, string[]>): Promise<PlaylistSuggestion[]> {
+    return suggestWithRepair(available, prompt => this.generate(prompt));
+  }
+
+  async curatePlaylist(
+    request: string,
+    songs: LibrarySong[],
+    part: LibraryPart
+  ): Promise<PlaylistCuration> {
+    return curateWithRepair(request, songs, part, prompt => this.generate(prompt));
+  }
+
+  async analyzeSongs(songs: Song[], dimensions: TaxonomyDimension[]): Promise<AnalysisResult> {
+    return analyzeWithRepair(songs, dimensions, prompt => this.generate(prompt));
+  }
+
+  private async generate(prompt: string): Promise<string> {
+    let response: Response;
+
+    try {
+      response = await getScheduler('llm').run(
+        async () => {
+          const reply = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+              model: this.model,
+              messages: [{ role: 'user', content: prompt }],
+              temperature: 0.2,
+              response_format: { type: 'json_object' }, // Supported by OpenAI, Ollama and llama.cpp
+            }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+          });
+
+          if (!reply.ok) {
+            const detail = (await reply.text()).substring(0, 200);
+            throw new HttpError(
+              `HTTP ${reply.status} ${detail}`.trim(),
+              reply.status,
+              reply.headers.get('retry-after')
+            );
+          }
+          return reply;
+        },
+        { label: 'LLM request' }
+      );
+    } catch (error: any) {
+      logger.error(`LLM API error: ${error.message}`);
+      if (error instanceof HttpError && error.status === 429) {
+        throw new QuotaExceededError('LLM API rate limit exceeded');
+      }
+      throw error;
+    }
+
+    const data: any = await response.json().catch(() => null);
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AIResponseError('LLM response did not include a message');
+    }
+    return content;
+  }
+}
@@ -0,0 +1,107 @@
+import { getDatabase } from '../db';
+import { getDimension } from '../utils/config';
+import { ANALYSIS, PLAYLIST_SHAPES, type PlaylistShape } from '../utils/constants';
+
+const ENERGY_DIMENSION = 'energy';
+const UNKNOWN_ENERGY = 0.5; // Songs without an energy label sit in the middle of the curve
+const ADJACENCY_WEIGHT = 0.3; // How much a smooth mood/genre transition counts against energy fit
+
+interface OrderableSong {
+  id: string;
+  labels: Record<string, string[]>; // Dimension name -> values
+}
+
+// Target energy at a point t (0 = first track, 1 = last) of each shape, from 0 to 1
+const CURVES: Record<PlaylistShape, (t: number) => number> = {
+  'ramp-up': t => t,
+  peak: t => 1 - Math.abs(2 * t - 1),
+  'wind-down': t => 1 - t,
+};
+
+/**
+ * Sequence songs so their energy follows the shape while neighbours share moods and genres.
+ * Targets are drawn from the playlist's own energy spread, so an all-calm playlist still gets
+ * its calmest songs at the low points. Each slot greedily takes the closest remaining song.
+ */
+export function orderSongs(songs: OrderableSong[], shape: PlaylistShape): string[] {
+  const energies = new Map(songs.map(song => [song.id, energyOf(song)]));
+  const sorted = [...energies.values()].sort((a, b) => a - b);
+  const curve = CURVES[shape];
+
+  const remaining = [...songs];
+  const ordered: OrderableSong[] = [];
+
+  for (let i = 0; i < songs.length; i++) {
+    const t = songs.length === 1 ? 0 : i / (songs.length - 1);
+    const target = sorted[Math.round(curve(t) * (sorted.length - 1))]!;
+    const previous = ordered[ordered.length - 1];
+
+    let bestIndex = 0;
+    let bestCost = Infinity;
+    for (const [index, song] of remaining.entries()) {
+      const fit = Math.abs(energies.get(song.id)! - target);
+      const jump = previous ? 1 - similarity(previous, song) : 0;
+      const cost = fit + ADJACENCY_WEIGHT * jump;
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    }
+
+    ordered.push(remaining.splice(bestIndex, 1)[0]!);
+  }
+
+  return ordered.map(song => song.id);
+}
+
+// A shape name, null for "none" (keep insertion order), or undefined when it is neither
+export function parseShape(value: string): PlaylistShape | null | undefined {
+  const name = value.trim().toLowerCase();
+  if (name === 'none') return null;
+  return PLAYLIST_SHAPES.find(shape => shape === name);
+}
+
+// Re-sequence a playlist by its shape and save the order. Playlists without a shape go back
+// to insertion order.
+export function orderPlaylist(playlistId: string): void {
+  const db = getDatabase();
+  const playlist = db.getPlaylistById(playlistId);
+  if (!playlist) return;
+
+  if (!playlist.shape) {
+    db.setPlaylistOrder(playlistId, []);
+    return;
+  }
+
+  const songs = db.getPlaylistSongs(playlistId).map(song => {
+    const labels: OrderableSong['labels'] = {};
+    for (const category of db.getCategoriesBySongId(song.id, ANALYSIS.DEFAULT_MIN_CONFIDENCE)) {
+      (labels[category.type] ??= []).push(category.value);
+    }
+    return { id: song.id, labels };
+  });
+
+  db.setPlaylistOrder(playlistId, orderSongs(songs, playlist.shape));
+}
+
+// Position of the song's energy value in the vocabulary, scaled to 0-1 (low, medium, high)
+function energyOf(song: OrderableSong): number {
+  const values = getDimension(ENERGY_DIMENSION)?.values ?? [];
+  const index = values.indexOf(song.labels[ENERGY_DIMENSION]?.[0] ?? '');
+  if (index === -1 || values.length < 2) return UNKNOWN_ENERGY;
+  return index / (values.length - 1);
+}
+
+// Share of mood, genre and other non-energy labels the two songs have in common (Jaccard)
+function similarity(a: OrderableSong, b: OrderableSong): number {
+  const labelsOf = (song: OrderableSong) =>
+    Object.entries(song.labels)
+      .filter(([name]) => name !== ENERGY_DIMENSION)
+      .flatMap(([name, values]) => values.map(value => `${name}=${value}`));
+
+  const left = new Set(labelsOf(a));
+  const right = labelsOf(b);
+  const shared = right.filter(label => left.has(label)).length;
+  const union = left.size + right.length - shared;
+  return union === 0 ? 0 : shared / union;
+}
@@ -0,0 +1,26 @@
+import { getProviderConfig } from '../utils/config';
+import { ConfigError } from '../utils/errors';
+import { GeminiService } from './gemini';
+import { OpenAICompatibleService } from './openai';
+import { RuleBasedService } from './rules';
+import type { LLMProvider } from './llm';
+
+// Build the AI provider selected in djemini.config.json (Gemini by default)
+export function createProvider(): LLMProvider {
+  const { type, model, baseUrl } = getProviderConfig();
+
+  switch (type) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new ConfigError('GEMINI_API_KEY not found in .env');
+      }
+      return new GeminiService(apiKey, model);
+    }
+    case 'openai':
+      // Optional: local servers such as Ollama and llama.cpp accept unauthenticated requests
+      return new OpenAICompatibleService(baseUrl!, model, process.env.OPENAI_API_KEY);
+    case 'rules':
+      return new RuleBasedService(model);
+  }
+}
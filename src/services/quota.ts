@@ -0,0 +1,51 @@
+import { getDatabase } from '../db';
+import { YOUTUBE_QUOTA, type YouTubeMethod } from '../utils/constants';
+import type { QuotaUsage } from '../types';
+
+export class QuotaService {
+  // YouTube quota days run midnight to midnight Pacific time
+  static getQuotaDay(date: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: YOUTUBE_QUOTA.TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  }
+
+  static costOf(method: YouTubeMethod, calls = 1): number {
+    return YOUTUBE_QUOTA.COSTS[method] * calls;
+  }
+
+  // Record an API call in the ledger
+  record(method: YouTubeMethod): void {
+    getDatabase().recordQuotaUsage(QuotaService.getQuotaDay(), method, QuotaService.costOf(method));
+  }
+
+  // Make an API call and record it, whether it succeeds or not: YouTube charges failed calls
+  // too. Wrap each attempt, i.e. inside a scheduled request, so retries are counted as well.
+  async track<T>(method: YouTubeMethod, request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } finally {
+      this.record(method);
+    }
+  }
+
+  getDailyBudget(): number {
+    const budget = parseInt(process.env.YOUTUBE_DAILY_QUOTA ?? '');
+    return isNaN(budget) || budget <= 0 ? YOUTUBE_QUOTA.DEFAULT_DAILY_BUDGET : budget;
+  }
+
+  getUsedToday(): number {
+    return getDatabase().getQuotaUsedOn(QuotaService.getQuotaDay());
+  }
+
+  getRemaining(): number {
+    return Math.max(0, this.getDailyBudget() - this.getUsedToday());
+  }
+
+  getBreakdown(day: string = QuotaService.getQuotaDay()): QuotaUsage[] {
+    return getDatabase().getQuotaBreakdown(day);
+  }
+}
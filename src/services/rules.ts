@@ -0,0 +1,105 @@
+import { getTaxonomy } from '../utils/config';
+import { normalizeLabel } from '../utils/vocabulary';
+import type {
+  AnalysisResult,
+  LibrarySong,
+  LLMProvider,
+  PlaylistCuration,
+  PlaylistSuggestion,
+  SongAnalysis,
+} from './llm';
+import type { Song, TaxonomyDimension } from '../types';
+
+const MATCH_CONFIDENCE = 0.6; // A keyword in the title is a hint, not proof
+const MAX_SUGGESTIONS = 10;
+
+// Deterministic offline provider: labels songs by vocabulary words found in their title or
+// artist, and suggests one playlist per label value. Needs no API key or network.
+export class RuleBasedService implements LLMProvider {
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async analyzeSongs(songs: Song[], dimensions: TaxonomyDimension[]): Promise<AnalysisResult> {
+    const analyses = songs.map((song): SongAnalysis => {
+      const text = `${song.title} ${song.artist ?? ''}`.toLowerCase();
+      const labels: SongAnalysis['labels'] = {};
+
+      for (const dimension of dimensions) {
+        const values: string[] = [];
+        for (const term of [...dimension.values, ...Object.keys(dimension.synonyms)]) {
+          const value = normalizeLabel(dimension, term);
+          if (value && !values.includes(value) && containsWord(text, term)) {
+            values.push(value);
+          }
+        }
+
+        labels[dimension.name] = (
+          dimension.cardinality === 'single' ? values.slice(0, 1) : values
+        ).map(value => ({ value, confidence: MATCH_CONFIDENCE }));
+      }
+
+      return { song_id: song.id, labels, rejected: [] };
+    });
+
+    return { analyses, failures: [] };
+  }
+
+  async suggestPlaylists(available: Record<string, string[]>): Promise<PlaylistSuggestion[]> {
+    const suggestions: PlaylistSuggestion[] = [];
+    const names = new Set<string>();
+
+    for (const [dimension, values] of Object.entries(available)) {
+      for (const value of values) {
+        let name = value.replace(/\b\w/g, c => c.toUpperCase());
+        if (names.has(name)) name = `${name} (${dimension})`;
+        names.add(name);
+
+        suggestions.push({
+          name,
+          description: `Songs with ${dimension} "${value}"`,
+          filters: { [dimension]: [value] },
+        });
+      }
+    }
+
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Picks songs carrying any label named in the request, e.g. "calm jazz" -> mood calm, genre jazz
+  async curatePlaylist(request: string, songs: LibrarySong[]): Promise<PlaylistCuration> {
+    const words = request.toLowerCase().split(/\s+/).filter(Boolean);
+    const phrases = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    const wanted: string[] = [];
+
+    for (const dimension of getTaxonomy()) {
+      for (const phrase of phrases) {
+        const value = normalizeLabel(dimension, phrase);
+        if (value) wanted.push(`${dimension.name}=${value}`);
+      }
+    }
+
+    return {
+      name: request.replace(/\b\w/g, c => c.toUpperCase()),
+      description:
+        wanted.length > 0 ? `Songs with ${[...new Set(wanted)].join(', ')}` : 'No labels matched',
+      song_ids: songs
+        .filter(song =>
+          Object.entries(song.labels).some(([name, values]) =>
+            values.some(value => wanted.includes(`${name}=${value}`))
+          )
+        )
+        .map(song => song.id),
+    };
+  }
+}
+
+function containsWord(text: string, term: string): boolean {
+  const escaped = term
+    .toLowerCase()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[\s-]+/g, '[\\s-]*'); // "hip-hop" also matches "hip hop" and "hiphop"
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
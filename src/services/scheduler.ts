@@ -0,0 +1,131 @@
+import { logger } from '../utils/logger';
+import { REQUEST_SCHEDULER, type ApiName } from '../utils/constants';
+import { HttpError, isRetryableError } from '../utils/errors';
+
+interface RunOptions {
+  label?: string; // Shown in retry messages
+  idempotent?: boolean; // Calls that create or delete something only retry rejections (default: true)
+}
+
+// Refills continuously at `ratePerMinute`, holding at most `capacity` requests of burst
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly ratePerMinute: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.updatedAt) * this.ratePerMinute) / 60000
+      );
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) * 60000) / this.ratePerMinute);
+    }
+  }
+}
+
+export class RequestScheduler {
+  private bucket: TokenBucket;
+
+  constructor(private readonly api: ApiName) {
+    const { REQUESTS_PER_MINUTE, BURST } = REQUEST_SCHEDULER.RATE_LIMITS[api];
+    this.bucket = new TokenBucket(REQUESTS_PER_MINUTE, BURST);
+  }
+
+  // Run `request` once a rate-limit token is free, retrying retryable failures with backoff
+  async run<T>(request: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+    const { label = this.api, idempotent = true } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+
+      try {
+        return await request();
+      } catch (error: any) {
+        if (attempt >= REQUEST_SCHEDULER.MAX_RETRIES || !isRetryableError(error, idempotent)) {
+          throw error;
+        }
+
+        const retryAfter = getRetryAfterMs(error);
+        if (retryAfter !== null && retryAfter > REQUEST_SCHEDULER.MAX_DELAY_MS) {
+          throw error; // Waiting this long is not worth blocking the command
+        }
+
+        const delay = retryAfter ?? backoffDelay(attempt);
+        logger.dim(
+          `  ${label} failed (${describe(error)}), retrying in ${(delay / 1000).toFixed(1)}s ` +
+            `(${attempt + 1}/${REQUEST_SCHEDULER.MAX_RETRIES})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+const schedulers = new Map<ApiName, RequestScheduler>();
+
+// One scheduler per API, shared by every caller so the rate limits hold across services
+export function getScheduler(api: ApiName): RequestScheduler {
+  let scheduler = schedulers.get(api);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(api);
+    schedulers.set(api, scheduler);
+  }
+  return scheduler;
+}
+
+// Exponential backoff with equal jitter: half the delay is fixed, half random
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    REQUEST_SCHEDULER.MAX_DELAY_MS,
+    REQUEST_SCHEDULER.BASE_DELAY_MS * 2 ** attempt
+  );
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Retry-After from an HTTP header (seconds or a date) or Gemini's RetryInfo ("12.5s")
+function getRetryAfterMs(error: any): number | null {
+  const headers = error?.response?.headers;
+  const header =
+    error instanceof HttpError
+      ? error.retryAfter
+      : typeof headers?.get === 'function'
+        ? headers.get('retry-after')
+        : headers?.['retry-after'];
+
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const retryInfo = error?.errorDetails?.find((detail: any) =>
+    String(detail?.['@type']).endsWith('RetryInfo')
+  );
+  const delay = parseFloat(retryInfo?.retryDelay);
+  return isNaN(delay) ? null : delay * 1000;
+}
+
+function describe(error: any): string {
+  const status = Number(error?.status ?? error?.response?.status ?? error?.code);
+  if (!isNaN(status)) return `HTTP ${status}`;
+  return typeof error?.code === 'string' ? error.code : (error?.message ?? 'error');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,71 @@
+import { getDatabase } from '../db';
+import { logger } from '../utils/logger';
+import { getTaxonomy } from '../utils/config';
+import { orderPlaylist } from './ordering';
+import { ANALYSIS } from '../utils/constants';
+import {
+  matchesFilter,
+  parseFilterExpression,
+  type FilterSubject,
+} from '../utils/filter-expression';
+import type { Playlist } from '../types';
+
+// Smart playlists keep their filter expression in category_value
+export const SMART_PLAYLIST_TYPE = 'smart';
+
+// Re-evaluate one smart playlist against the library. Returns the number of matching songs.
+export function refreshSmartPlaylist(
+  playlist: Playlist,
+  subjects: Map<string, FilterSubject> = getFilterSubjects()
+): number {
+  const expression = parseFilterExpression(playlist.category_value, getTaxonomy());
+  const songIds = [...subjects]
+    .filter(([, subject]) => matchesFilter(expression, subject))
+    .map(([songId]) => songId);
+
+  getDatabase().setPlaylistSongs(playlist.id, songIds);
+  orderPlaylist(playlist.id);
+  return songIds.length;
+}
+
+// Re-evaluate every smart playlist, e.g. after sync or analyze changed the library
+export function refreshSmartPlaylists(): void {
+  const playlists = getDatabase()
+    .getAllPlaylists()
+    .filter(playlist => playlist.category_type === SMART_PLAYLIST_TYPE);
+  if (playlists.length === 0) return;
+
+  const subjects = getFilterSubjects();
+  let updated = 0;
+
+  for (const playlist of playlists) {
+    try {
+      refreshSmartPlaylist(playlist, subjects);
+      updated++;
+    } catch (error: any) {
+      // The taxonomy may have changed since the playlist was defined
+      logger.warn(`Smart playlist "${playlist.name}" was not updated: ${error.message}`);
+    }
+  }
+
+  if (updated > 0) {
+    logger.dim(`Updated ${updated} smart playlists`);
+  }
+}
+
+// Labels (confident ones only, as for create) and sources of every song, by song ID
+function getFilterSubjects(): Map<string, FilterSubject> {
+  const db = getDatabase();
+  const sources = db.getSongSourceIds();
+  const subjects = new Map<string, FilterSubject>();
+
+  for (const song of db.getAllSongs()) {
+    const labels: FilterSubject['labels'] = {};
+    for (const category of db.getCategoriesBySongId(song.id, ANALYSIS.DEFAULT_MIN_CONFIDENCE)) {
+      (labels[category.type] ??= []).push(category.value);
+    }
+    subjects.set(song.id, { labels, sources: sources.get(song.id) ?? [] });
+  }
+
+  return subjects;
+}
@@ -1,7 +1,10 @@
 import { YouTubeAuth } from '../api/youtube';
 import { getDatabase } from '../db';
 import { logger } from '../utils/logger';
-import type { Song } from '../types';
+import { AuthRequiredError } from '../utils/errors';
+import { QuotaService } from './quota';
+import { getScheduler } from './scheduler';
+import type { Song, SongRef, SourceWithStats } from '../types';
 
 interface VideoItem {
   id: string;
@@ -12,14 +15,26 @@ interface VideoItem {
 
 export class SyncService {
   private youtubeAuth: YouTubeAuth;
+  private quota = new QuotaService();
 
   constructor() {
     this.youtubeAuth = new YouTubeAuth();
     if (!this.youtubeAuth.loadToken()) {
-      throw new Error('Not authenticated. Run "auth" command first.');
+      throw new AuthRequiredError();
     }
   }
 
+  // Estimate list-call cost from the last known size (50 items per page)
+  estimateCost(source: SourceWithStats): number {
+    const pages = Math.max(1, Math.ceil(source.song_count / 50));
+    if (source.type === 'liked') {
+      return QuotaService.costOf('videos.list', pages);
+    }
+    return (
+      QuotaService.costOf('playlistItems.list', pages) + QuotaService.costOf('videos.list', pages)
+    );
+  }
+
   async syncSource(sourceId: number): Promise<void> {
     const db = getDatabase();
     const source = db.getSourceById(sourceId);
@@ -30,31 +45,51 @@ export class SyncService {
 
     logger.info(`Syncing ${source.name}...`);
 
-    let videos: VideoItem[];
+    const runId = db.startSyncRun(source);
 
-    if (source.type === 'liked') {
-      videos = await this.fetchLikedVideos();
-    } else {
-      videos = await this.fetchPlaylistVideos(source.youtube_id!);
-    }
+    try {
+      let videos: VideoItem[];
+
+      if (source.type === 'liked') {
+        videos = await this.fetchLikedVideos();
+      } else {
+        videos = await this.fetchPlaylistVideos(source.youtube_id!);
+      }
 
-    // Filter music videos
-    const musicVideos = this.filterMusicVideos(videos);
-
-    // Save to database
-    const songs: Omit<Song, 'added_at' | 'ai_processed'>[] = musicVideos.map(video => ({
-      id: video.id,
-      title: video.title,
-      artist: video.artist,
-      source_id: sourceId,
-    }));
-
-    if (songs.length > 0) {
-      db.insertSongs(songs);
-      db.updateSourceSyncTime(sourceId);
-      logger.success(`✓ Synced ${songs.length} tracks from ${source.name}`);
-    } else {
-      logger.warn('No music tracks found');
+      // Filter music videos
+      const musicVideos = this.filterMusicVideos(videos);
+
+      // Save to database
+      const songs: Omit<Song, 'added_at' | 'ai_processed'>[] = musicVideos.map(video => ({
+        id: video.id,
+        title: video.title,
+        artist: video.artist,
+        source_id: sourceId,
+      }));
+
+      let added: SongRef[] = [];
+      let removed: SongRef[] = [];
+
+      // An empty result is more likely an API hiccup than an emptied source, so keep membership
+      if (songs.length > 0) {
+        ({ added, removed } = db.reconcileSourceSongs(sourceId, songs));
+        db.updateSourceSyncTime(sourceId);
+        logger.success(
+          `✓ Synced ${songs.length} tracks from ${source.name} (+${added.length} added, −${removed.length} removed)`
+        );
+      } else {
+        logger.warn('No music tracks found');
+      }
+
+      db.finishSyncRun(runId, {
+        fetched: videos.length,
+        filtered: videos.length - musicVideos.length,
+        added,
+        removed,
+      });
+    } catch (error: any) {
+      db.failSyncRun(runId, error?.message ?? String(error));
+      throw error;
     }
   }
 
@@ -64,12 +99,16 @@ export class SyncService {
     let pageToken: string | undefined;
 
     do {
-      const response = await youtube.videos.list({
-        part: ['snippet'],
-        myRating: 'like',
-        maxResults: 50,
-        pageToken,
-      });
+      const response = await getScheduler('youtube').run(() =>
+        this.quota.track('videos.list', () =>
+          youtube.videos.list({
+            part: ['snippet'],
+            myRating: 'like',
+            maxResults: 50,
+            pageToken,
+          })
+        )
+      );
 
       if (response.data.items) {
         for (const item of response.data.items) {
@@ -102,12 +141,16 @@ export class SyncService {
     let pageToken: string | undefined;
 
     do {
-      const response = await youtube.playlistItems.list({
-        part: ['snippet', 'contentDetails'],
-        playlistId,
-        maxResults: 50,
-        pageToken,
-      });
+      const response = await getScheduler('youtube').run(() =>
+        this.quota.track('playlistItems.list', () =>
+          youtube.playlistItems.list({
+            part: ['snippet', 'contentDetails'],
+            playlistId,
+            maxResults: 50,
+            pageToken,
+          })
+        )
+      );
 
       if (response.data.items) {
         // Collect video IDs to fetch details in batch
@@ -117,10 +160,14 @@ export class SyncService {
 
         // Fetch video details to get actual channel (artist)
         if (videoIds.length > 0) {
-          const videoDetails = await youtube.videos.list({
-            part: ['snippet'],
-            id: videoIds,
-          });
+          const videoDetails = await getScheduler('youtube').run(() =>
+            this.quota.track('videos.list', () =>
+              youtube.videos.list({
+                part: ['snippet'],
+                id: videoIds,
+              })
+            )
+          );
 
           if (videoDetails.data.items) {
             for (const video of videoDetails.data.items) {
@@ -1,3 +1,5 @@
+import type { PlaylistShape, ProviderType } from '../utils/constants';
+
 // Database types
 export interface Source {
   id: number;
@@ -17,21 +19,46 @@ export interface Song {
   ai_processed: boolean;
 }
 
+export type SongRef = Pick<Song, 'id' | 'title' | 'artist'>;
+
 export interface Category {
   id: number;
   song_id: string;
   type: string;
   value: string;
   confidence: number;
+  origin: CategoryOrigin;
   created_at: string;
 }
 
+export type CategoryOrigin = 'ai' | 'user';
+
+// A label the AI returned that is not in the taxonomy vocabulary
+export interface RejectedLabel {
+  id: number;
+  song_id: string;
+  type: string;
+  value: string;
+  confidence: number;
+  created_at: string;
+}
+
+// One song's analysis as saved by a batch; matchKey is set when the result should be cached
+export interface AnalysisEntry {
+  songId: string;
+  matchKey: string | null;
+  categories: Omit<Category, 'id' | 'created_at'>[];
+  rejected: Omit<RejectedLabel, 'id' | 'created_at'>[];
+}
+
 export interface Playlist {
   id: string;
   name: string;
   youtube_playlist_id: string | null;
   category_type: string;
   category_value: string;
+  description: string | null;
+  shape: PlaylistShape | null; // Energy curve the songs are ordered by; null keeps insertion order
   created_at: string;
   updated_at: string;
 }
@@ -44,5 +71,58 @@ export interface SourceWithStats extends Source {
   song_count: number;
 }
 
+export interface QuotaUsage {
+  method: string;
+  calls: number;
+  units: number;
+}
+
+export interface SyncRun {
+  id: number;
+  source_id: number | null;
+  source_name: string;
+  started_at: string;
+  finished_at: string | null;
+  fetched: number;
+  filtered: number;
+  added: number;
+  removed: number;
+  error: string | null;
+}
+
+export interface SyncRunChange {
+  run_id: number;
+  song_id: string;
+  title: string;
+  artist: string | null;
+  change: 'added' | 'removed';
+}
+
+export interface AnalysisCoverage {
+  type: string;
+  analyzed: number; // Songs analyzed for this type with any model/prompt version
+  current: number; // ...with the current model and prompt version
+}
+
 // Analysis types
-export type AnalysisType = 'mood' | 'genre' | 'energy' | 'all';
+export type CategoryType = string; // Name of a taxonomy dimension
+export type AnalysisType = CategoryType | 'all';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible providers only
+}
+
+export interface AnalysisConfig {
+  batchTokens: number;
+  concurrency: number;
+}
+
+export interface TaxonomyDimension {
+  name: CategoryType;
+  description?: string;
+  values: string[];
+  synonyms: Record<string, string>; // Alias -> canonical value
+  cardinality: 'single' | 'multiple';
+}
@@ -0,0 +1,145 @@
+import { UsageError } from './errors';
+
+export interface FlagDefinition {
+  name: string;
+  description: string;
+  type: 'string' | 'boolean';
+  multiple?: boolean; // Collect repeated occurrences into a list
+  valueName?: string; // Placeholder shown in help, e.g. <id>
+}
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | string[] | boolean>;
+}
+
+/**
+ * Split a command line into tokens, honoring single/double quotes and backslash escapes.
+ * Case is preserved so playlist IDs and multi-word values survive intact.
+ */
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < input.length) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\' && i + 1 < input.length) {
+      current += input[++i];
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new UsageError(`Unterminated ${quote} quote`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse tokens against a set of flag definitions.
+ * Supports `--flag value`, `--flag=value`, boolean flags and repeated flags; `--` ends flag parsing.
+ */
+export function parseArgs(tokens: string[], definitions: FlagDefinition[] = []): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: ParsedArgs['flags'] = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+
+    if (token === '--') {
+      positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    if (!token.startsWith('--') || token.length === 2) {
+      positionals.push(token);
+      continue;
+    }
+
+    const eqIndex = token.indexOf('=');
+    const name = (eqIndex === -1 ? token.slice(2) : token.slice(2, eqIndex)).toLowerCase();
+    const inlineValue = eqIndex === -1 ? undefined : token.slice(eqIndex + 1);
+    const definition = definitions.find(d => d.name === name);
+
+    if (!definition) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+
+    let value: string | boolean;
+    if (definition.type === 'boolean') {
+      if (inlineValue === undefined) {
+        value = true;
+      } else if (['true', 'false'].includes(inlineValue.toLowerCase())) {
+        value = inlineValue.toLowerCase() === 'true';
+      } else {
+        throw new UsageError(`Option --${name} does not take a value`);
+      }
+    } else if (inlineValue !== undefined) {
+      value = inlineValue;
+    } else {
+      const next = tokens[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        throw new UsageError(`Option --${name} requires a value`);
+      }
+      value = next;
+      i++;
+    }
+
+    if (definition.multiple) {
+      const existing = flags[name];
+      flags[name] = [...(Array.isArray(existing) ? existing : []), String(value)];
+    } else if (name in flags) {
+      throw new UsageError(`Option --${name} given more than once`);
+    } else {
+      flags[name] = value;
+    }
+  }
+
+  return { positionals, flags };
+}
+
+export function getStringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (Array.isArray(value)) return value[value.length - 1];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getBooleanFlag(args: ParsedArgs, name: string): boolean {
+  return args.flags[name] === true;
+}
+
+export function getListFlag(args: ParsedArgs, name: string): string[] {
+  const value = args.flags[name];
+  if (Array.isArray(value)) return value;
+  return typeof value === 'string' ? [value] : [];
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import { AppPaths } from './paths';
+import { ConfigError } from './errors';
+import { ANALYSIS, LLM_PROVIDERS, PATHS, type ProviderType } from './constants';
+import type { AnalysisConfig, ProviderConfig, TaxonomyDimension } from '../types';
+
+export interface AppConfig {
+  provider: ProviderConfig;
+  analysis: AnalysisConfig;
+  taxonomy: TaxonomyDimension[];
+}
+
+// Used when no config file exists; a config file can override or extend these
+export const DEFAULT_TAXONOMY: TaxonomyDimension[] = [
+  {
+    name: 'mood',
+    cardinality: 'multiple',
+    values: [
+      'happy',
+      'sad',
+      'energetic',
+      'calm',
+      'romantic',
+      'angry',
+      'nostalgic',
+      'melancholic',
+      'uplifting',
+      'dark',
+      'chill',
+      'party',
+      'emotional',
+      'empowering',
+      'dreamy',
+    ],
+    synonyms: {
+      joyful: 'happy',
+      cheerful: 'happy',
+      upbeat: 'uplifting',
+      relaxed: 'calm',
+      relaxing: 'calm',
+      peaceful: 'calm',
+      mellow: 'chill',
+      aggressive: 'angry',
+      romance: 'romantic',
+      sentimental: 'nostalgic',
+    },
+  },
+  {
+    name: 'genre',
+    cardinality: 'multiple',
+    values: [
+      'pop',
+      'rock',
+      'hip-hop',
+      'r&b',
+      'electronic',
+      'indie',
+      'country',
+      'jazz',
+      'classical',
+      'metal',
+      'folk',
+      'latin',
+      'k-pop',
+      'alternative',
+      'edm',
+      'soul',
+      'funk',
+      'reggae',
+      'punk',
+      'blues',
+    ],
+    synonyms: {
+      rap: 'hip-hop',
+      rnb: 'r&b',
+      'r and b': 'r&b',
+      'rhythm and blues': 'r&b',
+      electronica: 'electronic',
+      'alt rock': 'alternative',
+      'alt-rock': 'alternative',
+      'heavy metal': 'metal',
+    },
+  },
+  {
+    name: 'energy',
+    cardinality: 'single',
+    values: ['low', 'medium', 'high'],
+    synonyms: {
+      mid: 'medium',
+      moderate: 'medium',
+      intense: 'high',
+    },
+  },
+];
+
+const DIMENSION_NAME = /^[a-z][a-z0-9_-]*$/;
+
+let cached: AppConfig | null = null;
+
+export function loadConfig(): AppConfig {
+  if (cached) return cached;
+
+  const configPath = AppPaths.getConfigPath();
+  let raw: any = {};
+
+  if (fs.existsSync(configPath)) {
+    try {
+      raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error: any) {
+      throw new ConfigError(`Could not read ${PATHS.CONFIG_FILE}: ${error.message}`);
+    }
+  }
+
+  cached = {
+    provider: parseProvider(raw?.provider ?? {}),
+    analysis: parseAnalysis(raw?.analysis ?? {}),
+    taxonomy: mergeTaxonomy(raw?.taxonomy ?? {}),
+  };
+  return cached;
+}
+
+export function getProviderConfig(): ProviderConfig {
+  return loadConfig().provider;
+}
+
+export function getAnalysisConfig(): AnalysisConfig {
+  return loadConfig().analysis;
+}
+
+export function getTaxonomy(): TaxonomyDimension[] {
+  return loadConfig().taxonomy;
+}
+
+export function getDimension(name: string): TaxonomyDimension | undefined {
+  return getTaxonomy().find(dimension => dimension.name === name);
+}
+
+function parseProvider(raw: any): ProviderConfig {
+  const invalid = (reason: string) =>
+    new ConfigError(`Invalid "provider" in ${PATHS.CONFIG_FILE}: ${reason}`);
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw invalid('expected an object');
+  }
+
+  const type = raw.type ?? 'gemini';
+  if (!Object.hasOwn(LLM_PROVIDERS, type)) {
+    throw invalid(`"type" must be one of ${Object.keys(LLM_PROVIDERS).join(', ')}`);
+  }
+
+  for (const key of ['model', 'baseUrl']) {
+    if (raw[key] !== undefined && (typeof raw[key] !== 'string' || !raw[key].trim())) {
+      throw invalid(`"${key}" must be a non-empty string`);
+    }
+  }
+
+  const defaults: { MODEL: string; BASE_URL?: string } = LLM_PROVIDERS[type as ProviderType];
+  return {
+    type,
+    model: raw.model ?? defaults.MODEL,
+    baseUrl: raw.baseUrl ?? defaults.BASE_URL,
+  };
+}
+
+function parseAnalysis(raw: any): AnalysisConfig {
+  const invalid = (reason: string) =>
+    new ConfigError(`Invalid "analysis" in ${PATHS.CONFIG_FILE}: ${reason}`);
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw invalid('expected an object');
+  }
+
+  for (const key of ['batchTokens', 'concurrency']) {
+    if (raw[key] !== undefined && (!Number.isInteger(raw[key]) || raw[key] < 1)) {
+      throw invalid(`"${key}" must be a positive integer`);
+    }
+  }
+
+  return {
+    batchTokens: raw.batchTokens ?? ANALYSIS.DEFAULT_BATCH_TOKENS,
+    concurrency: raw.concurrency ?? ANALYSIS.DEFAULT_CONCURRENCY,
+  };
+}
+
+// Dimensions in the config file replace built-ins of the same name; new ones are appended
+function mergeTaxonomy(raw: unknown): TaxonomyDimension[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`"taxonomy" in ${PATHS.CONFIG_FILE} must be an object`);
+  }
+
+  const taxonomy = [...DEFAULT_TAXONOMY];
+
+  for (const [name, definition] of Object.entries(raw)) {
+    const dimension = parseDimension(name, definition);
+    const index = taxonomy.findIndex(d => d.name === name);
+    if (index >= 0) {
+      taxonomy[index] = dimension;
+    } else {
+      taxonomy.push(dimension);
+    }
+  }
+
+  return taxonomy;
+}
+
+function parseDimension(name: string, definition: any): TaxonomyDimension {
+  const invalid = (reason: string) =>
+    new ConfigError(`Invalid taxonomy dimension "${name}" in ${PATHS.CONFIG_FILE}: ${reason}`);
+
+  if (!DIMENSION_NAME.test(name) || name === 'all') {
+    throw invalid('use lowercase letters, digits, "-" or "_" (and not "all")');
+  }
+  if (typeof definition !== 'object' || definition === null) {
+    throw invalid('expected an object with "values"');
+  }
+
+  const values = definition.values;
+  if (
+    !Array.isArray(values) ||
+    values.length === 0 ||
+    values.some(v => typeof v !== 'string' || !v.trim())
+  ) {
+    throw invalid('"values" must be a non-empty list of strings');
+  }
+
+  const cardinality = definition.cardinality ?? 'multiple';
+  if (cardinality !== 'single' && cardinality !== 'multiple') {
+    throw invalid('"cardinality" must be "single" or "multiple"');
+  }
+
+  if (definition.description !== undefined && typeof definition.description !== 'string') {
+    throw invalid('"description" must be a string');
+  }
+
+  const rawSynonyms = definition.synonyms ?? {};
+  if (typeof rawSynonyms !== 'object' || rawSynonyms === null || Array.isArray(rawSynonyms)) {
+    throw invalid('"synonyms" must map aliases to values');
+  }
+
+  const canonical: string[] = [...new Set(values.map((v: string) => v.trim().toLowerCase()))];
+  const synonyms: Record<string, string> = {};
+
+  for (const [alias, target] of Object.entries(rawSynonyms)) {
+    if (typeof target !== 'string' || !canonical.includes(target.trim().toLowerCase())) {
+      throw invalid(`synonym "${alias}" must map to one of its values`);
+    }
+    synonyms[alias.trim().toLowerCase()] = target.trim().toLowerCase();
+  }
+
+  return {
+    name,
+    description: definition.description,
+    values: canonical,
+    synonyms,
+    cardinality,
+  };
+}
@@ -7,8 +7,80 @@ export const OAUTH_CONFIG = {
   ],
 };
 
+// Costs from https://developers.google.com/youtube/v3/determine_quota_cost
+export const YOUTUBE_QUOTA = {
+  DEFAULT_DAILY_BUDGET: 10000,
+  TIME_ZONE: 'America/Los_Angeles', // Quota resets at midnight Pacific time
+  COSTS: {
+    'channels.list': 1,
+    'playlists.list': 1,
+    'playlists.insert': 50,
+    'playlistItems.list': 1,
+    'playlistItems.insert': 50,
+    'playlistItems.delete': 50,
+    'videos.list': 1,
+  },
+} as const;
+
+export type YouTubeMethod = keyof typeof YOUTUBE_QUOTA.COSTS;
+
+// Client-side pacing per API, plus retry policy for 429s and transient failures
+export const REQUEST_SCHEDULER = {
+  RATE_LIMITS: {
+    youtube: { REQUESTS_PER_MINUTE: 300, BURST: 10 },
+    gemini: { REQUESTS_PER_MINUTE: 10, BURST: 2 }, // Free tier limit for flash models
+    llm: { REQUESTS_PER_MINUTE: 60, BURST: 4 },
+  },
+  MAX_RETRIES: 4,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 60000, // Longer Retry-After waits are treated as fatal
+} as const;
+
+export type ApiName = keyof typeof REQUEST_SCHEDULER.RATE_LIMITS;
+
+export const ANALYSIS = {
+  DEFAULT_BATCH_TOKENS: 4000, // Estimated prompt + reply tokens per request
+  DEFAULT_CONCURRENCY: 2, // Batches in flight at once
+  MAX_BATCH_SONGS: 50, // Longer replies are more likely to be cut off or malformed
+  DEFAULT_MIN_CONFIDENCE: 0.5, // Labels below this are ignored when building playlists
+  PROMPT_VERSION: 2, // Bump when the analysis prompt changes meaningfully
+} as const;
+
+export const PLAYLIST_CREATION = {
+  LIBRARY_CHUNK_TOKENS: 8000, // Library view sent per request when curating from a prompt
+  DEFAULT_SHAPE: 'peak', // Energy curve for playlists made by create and playlists define
+  PREVIEW_SONGS: 5, // Added and removed songs listed per playlist in create --preview/--dry-run
+} as const;
+
+// Energy curves a playlist can be ordered by
+export const PLAYLIST_SHAPES = ['ramp-up', 'peak', 'wind-down'] as const;
+
+export type PlaylistShape = (typeof PLAYLIST_SHAPES)[number];
+
+// Defaults for each AI provider; model and base URL can be overridden in djemini.config.json
+export const LLM_PROVIDERS = {
+  gemini: { MODEL: 'gemini-2.5-flash' },
+  openai: { MODEL: 'gpt-4o-mini', BASE_URL: 'https://api.openai.com/v1' },
+  rules: { MODEL: 'rules-v1' },
+} as const;
+
+export type ProviderType = keyof typeof LLM_PROVIDERS;
+
 export const PATHS = {
   DATA_DIR: 'data',
   TOKEN_FILE: 'token.json',
   DB_FILE: 'library.db',
+  CONFIG_FILE: 'djemini.config.json',
+} as const;
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  USAGE: 2,
+  AUTH_REQUIRED: 3,
+  QUOTA_EXCEEDED: 4,
+  AI_RESPONSE_INVALID: 5,
+  CONFIG_MISSING: 6,
 } as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
@@ -0,0 +1,87 @@
+import { EXIT_CODES, type ExitCode } from './constants';
+
+export class DjeminiError extends Error {
+  readonly exitCode: ExitCode;
+
+  constructor(message: string, exitCode: ExitCode = EXIT_CODES.FAILURE) {
+    super(message);
+    this.name = new.target.name;
+    this.exitCode = exitCode;
+  }
+}
+
+export class AuthRequiredError extends DjeminiError {
+  constructor(message = 'Not authenticated. Run "auth" command first.') {
+    super(message, EXIT_CODES.AUTH_REQUIRED);
+  }
+}
+
+export class QuotaExceededError extends DjeminiError {
+  constructor(message = 'API quota exceeded') {
+    super(message, EXIT_CODES.QUOTA_EXCEEDED);
+  }
+}
+
+export class AIResponseError extends DjeminiError {
+  constructor(message = 'Invalid response from the AI provider') {
+    super(message, EXIT_CODES.AI_RESPONSE_INVALID);
+  }
+}
+
+export class UsageError extends DjeminiError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.USAGE);
+  }
+}
+
+export class ConfigError extends DjeminiError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.CONFIG_MISSING);
+  }
+}
+
+// Non-2xx reply from an HTTP API called without a client library
+export class HttpError extends DjeminiError {
+  readonly status: number;
+  readonly retryAfter: string | null; // Raw Retry-After header
+
+  constructor(message: string, status: number, retryAfter: string | null = null) {
+    super(message);
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// YouTube reports exhausted quota as a 403 with a "quotaExceeded" reason
+export function isQuotaError(error: any): boolean {
+  return (
+    error instanceof QuotaExceededError ||
+    error?.code === 403 ||
+    !!error?.message?.includes('quota')
+  );
+}
+
+const TRANSIENT_STATUSES = [408, 500, 502, 503, 504];
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+// 429s and short-term rate limits were rejected outright, so they are always safe to retry.
+// Server errors and dropped connections may have been applied, so only idempotent calls retry.
+export function isRetryableError(error: any, idempotent: boolean): boolean {
+  const status = Number(error?.status ?? error?.response?.status ?? error?.code);
+  if (status === 429) return true;
+
+  if (status === 403) {
+    const reason = error?.errors?.[0]?.reason ?? error?.response?.data?.error?.errors?.[0]?.reason;
+    return RATE_LIMIT_REASONS.includes(reason);
+  }
+
+  if (!idempotent) return false;
+  return TRANSIENT_STATUSES.includes(status) || TRANSIENT_NETWORK_CODES.includes(error?.code);
+}
+
+export function exitCodeFor(error: unknown): ExitCode {
+  if (error instanceof DjeminiError) return error.exitCode;
+  if (isQuotaError(error)) return EXIT_CODES.QUOTA_EXCEEDED;
+  return EXIT_CODES.FAILURE;
+}
@@ -0,0 +1,186 @@
+import { UsageError } from './errors';
+import { normalizeLabel } from './vocabulary';
+import type { TaxonomyDimension } from '../types';
+
+/**
+ * Smart playlist rules, e.g. `genre:(rock|indie) AND energy:high AND NOT mood:sad AND source:2`.
+ *
+ * A term is `<field>:<value>` or `<field>:(<value>|<value>...)` and matches when the song has
+ * any of the values. Fields are taxonomy dimensions plus `source` (a source ID). Terms combine
+ * with AND, OR, NOT and parentheses; NOT binds tightest, then AND, then OR. Keywords are
+ * case-insensitive and values with spaces can be quoted.
+ */
+export type FilterExpression =
+  | { kind: 'and' | 'or'; operands: FilterExpression[] }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'match'; field: string; values: string[] };
+
+// What an expression is evaluated against
+export interface FilterSubject {
+  labels: Record<string, string[]>; // Dimension name -> values
+  sources: number[];
+}
+
+interface Token {
+  type: 'word' | 'string' | '(' | ')' | '|' | ':';
+  text: string;
+  position: number;
+}
+
+export function parseFilterExpression(
+  input: string,
+  dimensions: TaxonomyDimension[]
+): FilterExpression {
+  const tokens = tokenizeExpression(input);
+  let index = 0;
+
+  const fail = (message: string, token = tokens[index]): never => {
+    const where = token ? `at position ${token.position + 1}` : 'at end of expression';
+    throw new UsageError(`Invalid expression ${where}: ${message}`);
+  };
+  const peek = () => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === 'word' && token.text.toUpperCase() === keyword;
+
+  const parseOr = (): FilterExpression => {
+    const operands = [parseAnd()];
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'or', operands };
+  };
+
+  const parseAnd = (): FilterExpression => {
+    const operands = [parseNot()];
+    while (isKeyword(peek(), 'AND')) {
+      index++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'and', operands };
+  };
+
+  const parseNot = (): FilterExpression => {
+    if (isKeyword(peek(), 'NOT')) {
+      index++;
+      return { kind: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FilterExpression => {
+    const token = peek();
+    if (token?.type === '(') {
+      index++;
+      const expression = parseOr();
+      if (peek()?.type !== ')') fail('expected ")"');
+      index++;
+      return expression;
+    }
+    if (token?.type !== 'word') {
+      return fail(token ? `unexpected "${token.text}"` : 'expected a term like genre:rock');
+    }
+    return parseTerm();
+  };
+
+  const parseTerm = (): FilterExpression => {
+    const fieldToken = tokens[index++]!;
+    const field = fieldToken.text.toLowerCase();
+    if (peek()?.type !== ':') fail(`expected ":" after "${fieldToken.text}"`);
+    index++;
+
+    const rawValues: Token[] = [];
+    if (peek()?.type === '(') {
+      index++;
+      rawValues.push(parseValue());
+      while (peek()?.type === '|') {
+        index++;
+        rawValues.push(parseValue());
+      }
+      if (peek()?.type !== ')') fail('expected "|" or ")"');
+      index++;
+    } else {
+      rawValues.push(parseValue());
+    }
+
+    if (field === 'source') {
+      const ids = rawValues.map(token =>
+        /^\d+$/.test(token.text) ? token.text : fail('source must be a source ID', token)
+      );
+      return { kind: 'match', field, values: ids };
+    }
+
+    const dimension = dimensions.find(d => d.name === field);
+    if (!dimension) {
+      return fail(
+        `unknown field "${field}" (use ${[...dimensions.map(d => d.name), 'source'].join(', ')})`,
+        fieldToken
+      );
+    }
+    const values = rawValues.map(
+      token =>
+        normalizeLabel(dimension, token.text) ??
+        fail(`"${token.text}" is not a ${field} value`, token)
+    );
+    return { kind: 'match', field, values };
+  };
+
+  const parseValue = (): Token => {
+    const token = peek();
+    if (token?.type !== 'word' && token?.type !== 'string') {
+      return fail('expected a value');
+    }
+    index++;
+    return token;
+  };
+
+  if (tokens.length === 0) fail('expression is empty');
+  const expression = parseOr();
+  if (index < tokens.length) fail(`unexpected "${tokens[index]!.text}"`);
+  return expression;
+}
+
+export function matchesFilter(expression: FilterExpression, subject: FilterSubject): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every(operand => matchesFilter(operand, subject));
+    case 'or':
+      return expression.operands.some(operand => matchesFilter(operand, subject));
+    case 'not':
+      return !matchesFilter(expression.operand, subject);
+    case 'match':
+      if (expression.field === 'source') {
+        return expression.values.some(id => subject.sources.includes(Number(id)));
+      }
+      return expression.values.some(value => subject.labels[expression.field]?.includes(value));
+  }
+}
+
+function tokenizeExpression(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('()|:'.includes(char)) {
+      tokens.push({ type: char as Token['type'], text: char, position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = input.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new UsageError(`Invalid expression at position ${i + 1}: unterminated quote`);
+      }
+      tokens.push({ type: 'string', text: input.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()|:"']/.test(input[i]!)) i++;
+      tokens.push({ type: 'word', text: input.slice(start, i), position: start });
+    }
+  }
+
+  return tokens;
+}
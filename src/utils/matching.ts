@@ -0,0 +1,31 @@
+import type { SongRef } from '../types';
+
+// Bracketed parts that describe the upload rather than the recording: "(Official Video)",
+// "[Lyrics]", "(HD Remastered)", "(feat. X)". Versions such as "(Live)" or "(Remix)" are kept.
+const UPLOAD_NOTE =
+  /[([][^)\]]*\b(official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|mv|m\/v|remaster(ed)?|feat|ft)\b[^)\]]*[)\]]/gi;
+
+// Same notes after a separator: "Title | Official Music Video", "Title - Lyrics"
+const UPLOAD_SUFFIX =
+  /\s+[-|–—]\s+[^-|–—]*\b(official|video|audio|lyrics?|visuali[sz]er)\b[^-|–—]*$/i;
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// Key shared by uploads of the same track (official video, audio, lyric video...), or null
+// when the song has no artist to tell apart common titles like "Intro"
+export function getMatchKey(song: Pick<SongRef, 'title' | 'artist'>): string | null {
+  const artist = (song.artist ?? '').replace(/\s*-\s*Topic$/i, '').replace(/VEVO$/i, '');
+  let title = song.title.replace(UPLOAD_NOTE, '').replace(UPLOAD_SUFFIX, '');
+
+  // Channels that are not the artist's often upload as "Artist - Title"
+  const prefix = title.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+  if (prefix && compact(prefix[1]!) === compact(artist)) {
+    title = prefix[2]!;
+  }
+
+  const artistKey = compact(artist);
+  const titleKey = compact(title);
+  return artistKey && titleKey ? `${artistKey}|${titleKey}` : null;
+}
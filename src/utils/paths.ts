@@ -22,4 +22,9 @@ export class AppPaths {
   static getDbPath(): string {
     return path.join(this.getDataDir(), PATHS.DB_FILE);
   }
+
+  // Lives next to .env rather than in data/ so it can be committed and shared
+  static getConfigPath(): string {
+    return path.join(process.cwd(), PATHS.CONFIG_FILE);
+  }
 }
@@ -0,0 +1,15 @@
+// SQLite CURRENT_TIMESTAMP values are UTC but carry no zone marker
+export function parseDbTimestamp(dateStr: string): Date {
+  return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(dateStr) ? `${dateStr}Z` : dateStr);
+}
+
+export function getTimeAgo(dateStr: string): string {
+  const date = parseDbTimestamp(dateStr);
+  const now = new Date();
+  const seconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} mins ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+  return `${Math.floor(seconds / 86400)} days ago`;
+}
@@ -0,0 +1,30 @@
+import type { TaxonomyDimension } from '../types';
+
+// Case, spacing and punctuation are ignored: "Hip Hop", "hiphop" and "hip-hop" are the same label
+function labelKey(label: string): string {
+  return label.toLowerCase().replace(/[^\p{L}\p{N}&]/gu, '');
+}
+
+const lookups = new WeakMap<TaxonomyDimension, Map<string, string>>();
+
+function getLookup(dimension: TaxonomyDimension): Map<string, string> {
+  let lookup = lookups.get(dimension);
+  if (!lookup) {
+    lookup = new Map();
+    for (const [alias, value] of Object.entries(dimension.synonyms)) {
+      lookup.set(labelKey(alias), value);
+    }
+    // Canonical values win over synonyms that collapse to the same key
+    for (const value of dimension.values) {
+      lookup.set(labelKey(value), value);
+    }
+    lookups.set(dimension, lookup);
+  }
+  return lookup;
+}
+
+// Map a raw label to its canonical value, or null when it is outside the vocabulary
+export function normalizeLabel(dimension: TaxonomyDimension, label: string): string | null {
+  const key = labelKey(label);
+  return key ? (getLookup(dimension).get(key) ?? null) : null;
+}